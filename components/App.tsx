@@ -0,0 +1,46 @@
+import { useEffect, useState } from 'react';
+import { registerSW } from 'virtual:pwa-register';
+import { createAppServices } from '../store';
+import { AppContext, useAppState } from './AppContext';
+import { EditorView } from './EditorView';
+import { MainView } from './MainView';
+import { Notifications } from './Notifications';
+
+// --- App ---
+
+const Views = () => {
+  const editor = useAppState(state => state.editor);
+  // Set when a new version has been downloaded; calling it reloads into that version
+  const [applyUpdate, setApplyUpdate] = useState<(() => void) | null>(null);
+
+  // --- Offline Support ---
+
+  useEffect(() => {
+    const updateServiceWorker = registerSW({
+      onNeedRefresh: () => setApplyUpdate(() => () => updateServiceWorker(true)),
+      onRegisterError: error => console.error("Service worker registration failed:", error),
+    });
+  }, []);
+
+  return (
+    <>
+      {editor
+        ? <EditorView editor={editor} />
+        : <MainView applyUpdate={applyUpdate} onDismissUpdate={() => setApplyUpdate(null)} />}
+      <Notifications />
+    </>
+  );
+};
+
+export const App = () => {
+  const [services] = useState(createAppServices);
+
+  // Fade out if the app unmounts mid-session
+  useEffect(() => services.dispose, []);
+
+  return (
+    <AppContext.Provider value={services}>
+      <Views />
+    </AppContext.Provider>
+  );
+};
@@ -0,0 +1,27 @@
+import { createContext, useContext, useMemo, useSyncExternalStore } from 'react';
+import type { AppServices, AppState } from '../store';
+import { createFormatter, MESSAGES } from '../i18n';
+
+// --- App Context ---
+
+export const AppContext = createContext<AppServices | null>(null);
+
+export const useServices = () => {
+  const services = useContext(AppContext);
+  if (!services) throw new Error('useServices must be used inside AppContext');
+  return services;
+};
+
+// Re-renders only when the selected value changes, so selectors must return existing
+// state (or primitives) rather than building new objects
+export const useAppState = <T,>(select: (state: AppState) => T): T => {
+  const { store } = useServices();
+  return useSyncExternalStore(store.subscribe, () => select(store.getState()));
+};
+
+export const useMessages = () => MESSAGES[useAppState(state => state.settings.locale)];
+
+export const useFormatter = () => {
+  const locale = useAppState(state => state.settings.locale);
+  return useMemo(() => createFormatter(locale), [locale]);
+};
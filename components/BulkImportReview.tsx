@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import { Check, Plus, RotateCcw, Settings, X } from 'lucide-react';
+import type { LevelId } from '../types';
+import { LEVEL_IDS } from '../types';
+import { assignLevels, DEFAULT_ASSIGNMENT_RULES } from '../engine/bulkImport';
+import type { BulkImportItem, LevelAssignmentRule } from '../engine/bulkImport';
+import { useAppState, useMessages, useServices } from './AppContext';
+
+// --- Bulk Import Review ---
+// Files waiting to be merged into the editor, with the level each was assigned. Rule changes
+// are saved and reassign every item that wasn't set by hand.
+
+// Level picked in a <select>, null for the empty option
+const parseLevel = (value: string) => LEVEL_IDS.find(level => String(level) === value) ?? null;
+
+export const BulkImportReview = ({ initialItems, onCancel, onConfirm }: {
+  initialItems: BulkImportItem[];
+  onCancel: () => void;
+  onConfirm: (items: BulkImportItem[]) => void;
+}) => {
+  const { store } = useServices();
+  const importRules = useAppState(state => state.settings.importRules);
+  const t = useMessages();
+  const [items, setItems] = useState(initialItems);
+  const [showRules, setShowRules] = useState(false);
+
+  const updateRules = (rules: LevelAssignmentRule[]) => {
+    store.dispatch({ type: 'settingsChanged', patch: { importRules: rules } });
+    setItems(assignLevels(items, rules));
+  };
+
+  const assignItem = (index: number, level: LevelId | null) => {
+    setItems(items.map((item, i) => i === index ? { ...item, level, manual: true } : item));
+  };
+
+  return (
+    <div className="fixed inset-0 z-30 bg-slate-900/40 backdrop-blur-sm flex items-end sm:items-center justify-center p-4">
+      <div className="bg-white w-full max-w-md rounded-[2rem] p-6 shadow-xl max-h-[85vh] flex flex-col">
+        <div className="flex justify-between items-center mb-3">
+          <h2 className="text-xl font-bold text-slate-800">{t.bulkImport.title}</h2>
+          <button 
+              onClick={() => setShowRules(!showRules)}
+              className="flex items-center gap-1 bg-purple-100 text-purple-700 px-2 py-0.5 rounded-md text-xs font-bold active:scale-95 transition"
+          >
+              <Settings size={12} /> {t.bulkImport.rules}
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-1 mb-3">
+          {[...LEVEL_IDS, null].map(level => (
+            <span key={String(level)} className={`text-[10px] px-2 py-1 rounded-full font-mono font-bold ${level === null ? 'bg-slate-100 text-slate-400' : 'bg-purple-100 text-purple-600'}`}>
+              {level === null ? t.bulkImport.skip : `LV.${level}`} {items.filter(item => item.level === level).length}
+            </span>
+          ))}
+        </div>
+
+        {showRules && (
+          <div className="bg-slate-50 rounded-2xl p-3 mb-3 space-y-2 max-h-[30vh] overflow-y-auto border border-slate-100">
+            {importRules.map((rule, i) => (
+              <div key={i} className="flex items-center gap-2">
+                <input 
+                  type="text"
+                  value={rule.pattern}
+                  onChange={(e) => updateRules(importRules.map((r, j) => j === i ? { ...r, pattern: e.target.value } : r))}
+                  className="flex-1 min-w-0 px-2 py-1.5 bg-white border-0 rounded-md focus:ring-2 focus:ring-pink-200 outline-none text-slate-800 text-xs font-mono"
+                />
+                <select 
+                  value={rule.level}
+                  onChange={(e) => updateRules(importRules.map((r, j) => j === i ? { ...r, level: parseLevel(e.target.value) ?? r.level } : r))}
+                  className="px-2 py-1.5 bg-white border-0 rounded-md outline-none text-purple-600 text-xs font-mono font-bold"
+                >
+                  {LEVEL_IDS.map(level => <option key={level} value={level}>LV.{level}</option>)}
+                </select>
+                <button 
+                    onClick={() => updateRules(importRules.filter((_, j) => j !== i))}
+                    className="w-7 h-7 text-slate-400 flex items-center justify-center shrink-0 active:scale-95 transition"
+                >
+                    <X size={14} />
+                </button>
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <button 
+                  onClick={() => updateRules([...importRules, { pattern: '', level: 1 }])}
+                  className="flex-1 py-1.5 bg-white text-slate-600 rounded-md text-xs font-bold active:scale-95 transition flex items-center justify-center gap-1"
+              >
+                  <Plus size={12} /> {t.bulkImport.addRule}
+              </button>
+              <button 
+                  onClick={() => updateRules(DEFAULT_ASSIGNMENT_RULES)}
+                  className="flex-1 py-1.5 bg-white text-slate-600 rounded-md text-xs font-bold active:scale-95 transition flex items-center justify-center gap-1"
+              >
+                  <RotateCcw size={12} /> {t.bulkImport.resetRules}
+              </button>
+            </div>
+          </div>
+        )}
+
+        <ul className="space-y-1 overflow-y-auto flex-1">
+          {items.map((item, i) => (
+            <li key={`${item.path}-${i}`} className="flex items-center gap-2 text-xs text-slate-600 py-1">
+              <span className="truncate flex-1" title={item.path}>{item.path}</span>
+              <select 
+                value={item.level ?? ''}
+                onChange={(e) => assignItem(i, parseLevel(e.target.value))}
+                className={`px-2 py-1 rounded-md border-0 outline-none text-xs font-mono font-bold shrink-0 ${item.level === null ? 'bg-slate-100 text-slate-400' : 'bg-purple-100 text-purple-600'}`}
+              >
+                <option value="">{t.bulkImport.skip}</option>
+                {LEVEL_IDS.map(level => <option key={level} value={level}>LV.{level}</option>)}
+              </select>
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex gap-3 mt-5">
+          <button 
+              onClick={onCancel}
+              className="flex-1 py-3 bg-slate-100 text-slate-500 rounded-2xl font-bold text-sm active:scale-95 transition"
+          >
+              {t.common.cancel}
+          </button>
+          <button 
+              onClick={() => onConfirm(items)}
+              disabled={items.every(item => item.level === null)}
+              className="flex-1 py-3 bg-pink-300 text-slate-900 rounded-2xl font-bold text-sm active:scale-95 transition flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+              <Check size={18} /> {t.bulkImport.confirm(items.filter(item => item.level !== null).length)}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,150 @@
+import { useEffect, useRef, useState } from 'react';
+import { Check, RotateCcw } from 'lucide-react';
+import { createCalibrationRecorder } from '../engine/motionProcessing';
+import type { Calibration } from '../engine/motionProcessing';
+import { createMotionSource } from '../engine/motionSources';
+import type { MotionSource, TapMotionSource } from '../engine/motionSources';
+import { useFormatter, useMessages, useServices } from './AppContext';
+
+// --- Motion Calibration ---
+
+const CALIBRATION_PHASE_MS = 3000;
+
+// Wizard: rest -> motion -> done (result null when it failed)
+type CalibrationStep = { phase: 'rest' | 'motion' } | { phase: 'done'; result: Calibration | null };
+
+// Records a few seconds of rest, then a few seconds of motion, with the selected source
+export const CalibrationDialog = ({ onClose }: { onClose: () => void }) => {
+  const { store } = useServices();
+  const t = useMessages();
+  const fmt = useFormatter();
+  // Fixed while the dialog is open: the session is off, so the input can't change meanwhile
+  const [{ motionSourceId, motionScript }] = useState(() => ({
+    motionSourceId: store.getState().settings.motionSourceId,
+    motionScript: store.getState().motionScript,
+  }));
+  const [calibrationStep, setCalibrationStep] = useState<CalibrationStep>({ phase: 'rest' });
+  const runRef = useRef<{ source: MotionSource; timers: ReturnType<typeof setTimeout>[] } | null>(null);
+
+  const stopCalibrationRun = () => {
+    runRef.current?.source.stop();
+    runRef.current?.timers.forEach(clearTimeout);
+    runRef.current = null;
+  };
+
+  const handleStartCalibration = () => {
+    stopCalibrationRun();
+    const source = createMotionSource(motionSourceId, motionScript);
+    const recorder = createCalibrationRecorder();
+    runRef.current = { source, timers: [] };
+    setCalibrationStep({ phase: 'rest' });
+
+    source.start(recorder.add)
+      .then(() => {
+        const run = runRef.current;
+        if (!run || run.source !== source) return;
+        run.timers.push(setTimeout(() => {
+          recorder.setPhase('motion');
+          setCalibrationStep({ phase: 'motion' });
+        }, CALIBRATION_PHASE_MS));
+        run.timers.push(setTimeout(() => {
+          stopCalibrationRun();
+          setCalibrationStep({ phase: 'done', result: recorder.finish() });
+        }, CALIBRATION_PHASE_MS * 2));
+      })
+      .catch(error => {
+        console.error("Calibration failed:", error);
+        stopCalibrationRun();
+        setCalibrationStep({ phase: 'done', result: null });
+      });
+  };
+
+  useEffect(() => {
+    handleStartCalibration();
+    return stopCalibrationRun;
+  }, []);
+
+  const handleCloseCalibration = (result: Calibration | null) => {
+    stopCalibrationRun();
+    if (result) {
+      const { calibrations } = store.getState().settings;
+      store.dispatch({ type: 'settingsChanged', patch: { calibrations: { ...calibrations, [motionSourceId]: result } } });
+    }
+    onClose();
+  };
+
+  const handleTap = () => {
+    if (runRef.current?.source.id === 'tap') (runRef.current.source as TapMotionSource).tap();
+  };
+
+  return (
+    <div className="fixed inset-0 z-30 bg-slate-900/40 backdrop-blur-sm flex items-end sm:items-center justify-center p-4">
+      <div className="bg-white w-full max-w-md rounded-[2rem] p-6 shadow-xl space-y-5">
+        <h2 className="text-xl font-bold text-slate-800">{t.calibration.title(t.motionSources[motionSourceId])}</h2>
+
+        {calibrationStep.phase !== 'done' ? (
+          <>
+            <div className="bg-[#F9F8FC] rounded-3xl p-6 text-center space-y-2">
+              <div className="text-lg font-black text-slate-700">
+                {calibrationStep.phase === 'rest' ? t.calibration.rest : t.calibration.motion}
+              </div>
+              <div className="text-xs text-slate-400">
+                {calibrationStep.phase === 'rest' ? t.calibration.restHint : t.calibration.motionHint}
+              </div>
+            </div>
+            {motionSourceId === 'tap' && calibrationStep.phase === 'motion' && (
+              <button 
+                  onPointerDown={handleTap}
+                  className="w-full py-6 bg-[#F9F8FC] rounded-2xl border-2 border-dashed border-pink-200 text-sm font-bold text-slate-400 active:bg-pink-50 transition"
+              >
+                  {t.main.tapPad}
+              </button>
+            )}
+          </>
+        ) : (
+          <div className="bg-[#F9F8FC] rounded-3xl p-6 text-center space-y-2">
+            {calibrationStep.result ? (
+              <>
+                <div className="text-lg font-black text-slate-700">{t.calibration.done}</div>
+                <div className="text-xs font-mono text-slate-500">
+                  {t.calibration.result(fmt.number(calibrationStep.result.threshold, 2), fmt.number(calibrationStep.result.motionLevel, 2))}
+                </div>
+              </>
+            ) : (
+              <>
+                <div className="text-lg font-black text-slate-700">{t.calibration.failed}</div>
+                <div className="text-xs text-slate-400">{t.calibration.failedHint}</div>
+              </>
+            )}
+          </div>
+        )}
+
+        <div className="flex gap-3">
+          <button 
+              onClick={() => handleCloseCalibration(null)}
+              className="flex-1 py-3 bg-slate-100 text-slate-500 rounded-2xl font-bold text-sm active:scale-95 transition"
+          >
+              {t.common.cancel}
+          </button>
+          {calibrationStep.phase === 'done' && (
+            calibrationStep.result ? (
+              <button 
+                  onClick={() => handleCloseCalibration(calibrationStep.result)}
+                  className="flex-1 py-3 bg-pink-300 text-slate-900 rounded-2xl font-bold text-sm active:scale-95 transition flex items-center justify-center gap-2"
+              >
+                  <Check size={18} /> {t.common.apply}
+              </button>
+            ) : (
+              <button 
+                  onClick={handleStartCalibration}
+                  className="flex-1 py-3 bg-pink-300 text-slate-900 rounded-2xl font-bold text-sm active:scale-95 transition flex items-center justify-center gap-2"
+              >
+                  <RotateCcw size={18} /> {t.common.retry}
+              </button>
+            )
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,202 @@
+import { useEffect, useRef, useState } from 'react';
+import { Check, Smartphone, TriangleAlert, Volume2 } from 'lucide-react';
+import { detectCapabilities } from '../engine/capabilities';
+import { createDeviceMotionSource, MotionSourceError } from '../engine/motionSources';
+import type { MotionSample, MotionSource, MotionSourceErrorCode, MotionSourceId } from '../engine/motionSources';
+import type { AppState } from '../store';
+import { useFormatter, useMessages, useServices } from './AppContext';
+
+// --- Device Check (capabilities & permissions) ---
+
+const SENSOR_TEST_TIMEOUT_MS = 3000; // No reading by then = no usable sensor
+const SENSOR_READOUT_MS = 100; // Live readout refresh
+
+type SensorTest =
+  | { status: 'idle' | 'waiting' | 'noData' }
+  | { status: 'live'; sample: MotionSample }
+  | { status: 'failed'; code: MotionSourceErrorCode };
+
+export const DeviceCheckDialog = ({ deviceCheck }: { deviceCheck: NonNullable<AppState['deviceCheck']> }) => {
+  const { store, audioEngine, session } = useServices();
+  const t = useMessages();
+  const fmt = useFormatter();
+  const [sensorTest, setSensorTest] = useState<SensorTest>({ status: 'idle' });
+  const [audioTest, setAudioTest] = useState<boolean | null>(null); // Test tone played / blocked
+  const sensorTestRef = useRef<MotionSource | null>(null);
+
+  const stopSensorTest = () => {
+    sensorTestRef.current?.stop();
+    sensorTestRef.current = null;
+  };
+
+  useEffect(() => stopSensorTest, []);
+
+  const closeDeviceCheck = () => store.dispatch({ type: 'deviceCheckClosed' });
+
+  // Runs from the button tap: iOS only grants motion access inside a user gesture
+  const handleStartSensorTest = () => {
+    stopSensorTest();
+    const source = createDeviceMotionSource();
+    sensorTestRef.current = source;
+    setSensorTest({ status: 'waiting' });
+    let received = false;
+    let lastShown = 0;
+
+    source.start(sample => {
+      received = true;
+      if (sample.timestamp - lastShown < SENSOR_READOUT_MS) return;
+      lastShown = sample.timestamp;
+      setSensorTest({ status: 'live', sample });
+    })
+      .then(() => {
+        // Browsers without a sensor accept the listener but never fire it
+        setTimeout(() => {
+          if (!received && sensorTestRef.current === source) setSensorTest({ status: 'noData' });
+        }, SENSOR_TEST_TIMEOUT_MS);
+      })
+      .catch(error => {
+        console.error("Motion sensor test failed:", error);
+        stopSensorTest();
+        setSensorTest({ status: 'failed', code: error instanceof MotionSourceError ? error.code : 'unsupported' });
+      });
+  };
+
+  const handleTestAudio = () => {
+    audioEngine.playTestTone()
+      .then(setAudioTest)
+      .catch(error => {
+        console.error("Test tone failed:", error);
+        setAudioTest(false);
+      });
+  };
+
+  const handleUseFallbackInput = (id: MotionSourceId) => {
+    store.dispatch({ type: 'motionSourceSelected', id });
+    closeDeviceCheck();
+  };
+
+  const handleLoadMotionScript = (files: FileList | null) => {
+    session.loadMotionScript(files).then(closeDeviceCheck);
+  };
+
+  const capabilities = detectCapabilities();
+  const { failure } = deviceCheck;
+  const fallbacks = (['microphone', 'tap', 'script'] as const).filter(id => id !== failure?.source);
+  const showFallbacks = failure !== null || sensorTest.status === 'failed' || sensorTest.status === 'noData';
+  const fallbackClass = "flex-1 py-1.5 rounded-lg text-xs font-bold text-slate-600 bg-white shadow-sm active:scale-95 transition text-center";
+  return (
+    <div className="fixed inset-0 z-30 bg-slate-900/40 backdrop-blur-sm flex items-end sm:items-center justify-center p-4">
+      <div className="bg-white w-full max-w-md rounded-[2rem] p-6 shadow-xl max-h-[85vh] overflow-y-auto space-y-5">
+        <div>
+          <h2 className="text-xl font-bold text-slate-800">{t.onboarding.title}</h2>
+          <div className="text-xs text-slate-400 mt-1">{t.onboarding.intro}</div>
+        </div>
+
+        {failure && (
+          <div className="flex items-start gap-2 bg-red-50 text-red-500 rounded-2xl p-3 text-xs font-bold">
+            <TriangleAlert size={14} className="shrink-0" />
+            {t.onboarding.failures[failure.code](t.motionSources[failure.source])}
+          </div>
+        )}
+
+        <ul className="space-y-2">
+          {(['motion', 'microphone', 'audio'] as const).map(key => (
+            <li key={key} className="flex items-center justify-between bg-[#F9F8FC] rounded-2xl px-4 py-3 text-sm font-bold text-slate-600">
+              {t.onboarding.capabilities[key]}
+              <span className={`text-[10px] px-2 py-1 rounded-full ${
+                  capabilities[key] === 'unsupported' ? 'bg-slate-100 text-slate-400'
+                  : capabilities[key] === 'available' ? 'bg-pink-100 text-pink-600'
+                  : 'bg-purple-100 text-purple-600'
+              }`}>
+                {t.onboarding.status[capabilities[key]]}
+              </span>
+            </li>
+          ))}
+        </ul>
+        {!capabilities.secureContext && (
+          <div className="text-xs font-medium text-red-400">{t.onboarding.insecure}</div>
+        )}
+
+        <div className="space-y-2">
+          <button 
+              onClick={handleStartSensorTest}
+              disabled={capabilities.motion === 'unsupported'}
+              className="w-full py-3 bg-pink-300 text-slate-900 rounded-2xl font-bold text-sm active:scale-95 transition flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+              <Smartphone size={18} /> {t.onboarding.testSensor}
+          </button>
+          {sensorTest.status !== 'idle' && (
+            <div className="bg-slate-900 rounded-2xl p-4 text-xs font-bold space-y-2">
+              {sensorTest.status === 'waiting' && <div className="text-slate-400">{t.onboarding.waiting}</div>}
+              {sensorTest.status === 'noData' && <div className="text-red-400">{t.onboarding.noData}</div>}
+              {sensorTest.status === 'failed' && (
+                <div className="text-red-400">{t.onboarding.failures[sensorTest.code](t.motionSources.devicemotion)}</div>
+              )}
+              {sensorTest.status === 'live' && (
+                <>
+                  <div className="flex items-center gap-1 text-pink-300"><Check size={14} /> {t.onboarding.working}</div>
+                  <div className="flex gap-4 font-mono text-slate-400">
+                    {(['x', 'y', 'z'] as const).map(axis => (
+                      <span key={axis}>{axis} {fmt.signed(sensorTest.sample.acceleration?.[axis] ?? 0, 1)}</span>
+                    ))}
+                  </div>
+                  <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+                    <div className="h-full bg-pink-400 transition-all" style={{ width: `${Math.min(sensorTest.sample.magnitude * 5, 100)}%` }} />
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <button 
+              onClick={handleTestAudio}
+              disabled={capabilities.audio === 'unsupported'}
+              className="w-full py-3 bg-slate-100 text-slate-600 rounded-2xl font-bold text-sm active:scale-95 transition flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+              <Volume2 size={18} /> {t.onboarding.testAudio}
+          </button>
+          {audioTest !== null && (
+            <div className={`text-xs font-bold ${audioTest ? 'text-slate-500' : 'text-red-400'}`}>
+              {audioTest ? t.onboarding.audioWorking : t.onboarding.audioBlocked}
+            </div>
+          )}
+        </div>
+
+        {showFallbacks && (
+          <div className="space-y-2">
+            <div className="text-xs font-bold text-slate-400">{t.onboarding.fallbacks}</div>
+            <div className="flex gap-1 bg-slate-100 rounded-xl p-1">
+              {fallbacks.map(id => id === 'script' ? (
+                <label key={id} className={`${fallbackClass} cursor-pointer`}>
+                  <input 
+                      type="file" 
+                      accept=".json,application/json"
+                      className="hidden"
+                      onChange={(e) => {
+                          handleLoadMotionScript(e.target.files);
+                          e.target.value = '';
+                      }}
+                  />
+                  {t.motionSources[id]}
+                </label>
+              ) : (
+                <button key={id} onClick={() => handleUseFallbackInput(id)} className={fallbackClass}>
+                  {t.motionSources[id]}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <button 
+            onClick={closeDeviceCheck}
+            className="w-full py-3 bg-slate-100 text-slate-500 rounded-2xl font-bold text-sm active:scale-95 transition"
+        >
+            {t.onboarding.done}
+        </button>
+      </div>
+    </div>
+  );
+};
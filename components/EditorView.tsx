@@ -0,0 +1,561 @@
+import React, { useState } from 'react';
+import { Check, Download, Ellipsis, FolderOpen, GripVertical, Play, RotateCcw, Trash2, TriangleAlert, Upload, Vibrate, Waves, X } from 'lucide-react';
+import type { HapticPattern, LevelId, LevelSelection, Scheme, SchemeRules, SelectionMode } from '../types';
+import { LEVEL_IDS } from '../types';
+import { isAnalysed } from '../engine/audioAnalysis';
+import { assignLevels, entriesFromDataTransfer, entriesFromFileList } from '../engine/bulkImport';
+import type { BulkImportItem, ImportEntry } from '../engine/bulkImport';
+import { BAND_LEVELS, DEFAULT_RULES, validateRules } from '../engine/rules';
+import {
+  copySchemeFile,
+  moveSchemeFile,
+  patchSchemeFile,
+  removeSchemeFile,
+  reorderLevelFiles,
+} from '../engine/schemes';
+import { copyAudioBlob, createId } from '../engine/storage';
+import { useAppState, useFormatter, useMessages, useServices } from './AppContext';
+import { BulkImportReview } from './BulkImportReview';
+import { describeLevel, formatDuration } from './format';
+
+// --- Editor View ---
+
+const SELECTION_MODES: SelectionMode[] = ['random', 'shuffle', 'weighted'];
+const HAPTIC_TRY_MS = 2000; // How long "try" vibrates for
+
+export const EditorView = ({ editor }: { editor: Scheme }) => {
+  const { schemes, notifications, haptics } = useServices();
+  const importRules = useAppState(state => state.settings.importRules);
+  const t = useMessages();
+  const fmt = useFormatter();
+  // File whose actions (rename / move / copy / delete) are expanded
+  const [expandedFileId, setExpandedFileId] = useState<string | null>(null);
+  // Bulk import waiting for review before it's merged into the editor
+  const [bulkImport, setBulkImport] = useState<BulkImportItem[] | null>(null);
+  const [isDropTarget, setIsDropTarget] = useState(false);
+  // Clip being dragged by its handle: index it started at and index it's over
+  const [fileDrag, setFileDrag] = useState<{ level: LevelId; from: number; over: number } | null>(null);
+  const [isPackageBusy, setIsPackageBusy] = useState(false);
+
+  const { updateEditor } = schemes;
+  const ruleErrors = validateRules(editor.rules);
+  const numberValue = (raw: string) => raw === '' ? NaN : Number(raw);
+  const ruleInputClass = "w-full px-3 py-2 bg-slate-50 border-0 rounded-xl focus:ring-2 focus:ring-pink-200 focus:bg-white outline-none transition text-slate-800 text-sm font-medium";
+
+  const handleExportScheme = () => {
+    if (isPackageBusy) return;
+    setIsPackageBusy(true);
+    schemes.exportScheme(editor).finally(() => setIsPackageBusy(false));
+  };
+
+  const handleUpdateRules = (patch: Partial<SchemeRules>) => {
+    updateEditor(s => ({ ...s, rules: { ...s.rules, ...patch } }));
+  };
+
+  const handleUpdateBand = (level: 1 | 2 | 3 | 4, edge: 'min' | 'max', value: number) => {
+    const bands = editor.rules.bands;
+    handleUpdateRules({ bands: { ...bands, [level]: { ...bands[level], [edge]: value } } });
+  };
+
+  const handleUpdateSelection = (level: LevelId, patch: Partial<LevelSelection>) => {
+    updateEditor(s => {
+      const current = s.levels[level];
+      return { ...s, levels: { ...s.levels, [level]: { ...current, selection: { ...current.selection, ...patch } } } };
+    });
+  };
+
+  const handleUpdateHaptics = (level: LevelId, patch: Partial<HapticPattern>) => {
+    updateEditor(s => {
+      const current = s.levels[level];
+      return { ...s, levels: { ...s.levels, [level]: { ...current, haptics: { ...current.haptics, ...patch } } } };
+    });
+  };
+
+  // Level 5 is felt as a burst during a session, the others as a rhythm at full intensity
+  const handleTryHaptics = (level: LevelId) => {
+    const pattern = { ...editor.levels[level].haptics, enabled: true };
+    if (level === 5) {
+      haptics.burst(pattern);
+    } else {
+      haptics.setRhythm(pattern, 1);
+    }
+    setTimeout(haptics.stop, HAPTIC_TRY_MS);
+  };
+
+  const handleImportFiles = (level: LevelId, files: FileList | null) => {
+    if (files) schemes.addFiles(level, Array.from(files));
+  };
+
+  // --- File Actions ---
+
+  const handleUpdateFileTrim = (fileId: string, trimDb: number) => {
+    updateEditor(s => patchSchemeFile(s, fileId, { trimDb }));
+  };
+
+  const handleUpdateFileWeight = (fileId: string, weight: number) => {
+    updateEditor(s => patchSchemeFile(s, fileId, { weight: Math.max(weight, 0) }));
+  };
+
+  const handleRenameFile = (fileId: string, name: string) => {
+    updateEditor(s => patchSchemeFile(s, fileId, { name }));
+  };
+
+  const handleDeleteFile = (fileId: string) => {
+    updateEditor(s => removeSchemeFile(s, fileId));
+    setExpandedFileId(null);
+  };
+
+  const handleMoveFile = (fileId: string, toLevel: LevelId) => {
+    updateEditor(s => moveSchemeFile(s, fileId, toLevel));
+  };
+
+  const handleCopyFile = (fileId: string, toLevel: LevelId) => {
+    const copyId = createId('audio');
+    copyAudioBlob(fileId, copyId).catch(error => console.error("Failed to copy audio:", error));
+    updateEditor(s => copySchemeFile(s, fileId, toLevel, copyId));
+  };
+
+  // Drag handle: pointer events so it works with touch as well as a mouse
+  const handleFileDragMove = (event: React.PointerEvent) => {
+    if (!fileDrag) return;
+    const target = document.elementFromPoint(event.clientX, event.clientY)
+      ?.closest<HTMLElement>(`[data-level="${fileDrag.level}"][data-file-index]`);
+    if (target) setFileDrag({ ...fileDrag, over: Number(target.dataset.fileIndex) });
+  };
+
+  const handleFileDragEnd = () => {
+    if (fileDrag && fileDrag.from !== fileDrag.over) {
+      const { level, from, over } = fileDrag;
+      updateEditor(s => reorderLevelFiles(s, level, from, over));
+    }
+    setFileDrag(null);
+  };
+
+  // --- Bulk Import ---
+
+  const handleBulkEntries = (entries: ImportEntry[]) => {
+    if (entries.length === 0) {
+      notifications.showToast('error', t.toasts.noAudioFound);
+      return;
+    }
+    setBulkImport(assignLevels(entries, importRules));
+  };
+
+  const handleBulkDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    setIsDropTarget(false);
+    // Entries have to be taken from the event before anything async happens
+    entriesFromDataTransfer(event.dataTransfer)
+      .then(handleBulkEntries)
+      .catch(error => {
+        console.error("Failed to read dropped files:", error);
+        notifications.showToast('error', t.toasts.dropFailed);
+      });
+  };
+
+  return (
+    <div className="min-h-screen p-4 pb-24 bg-[#F3F1F6] select-none">
+      <div className="max-w-md mx-auto space-y-4">
+        <div className="flex items-center justify-between mb-6 sticky top-0 bg-[#F3F1F6]/90 backdrop-blur-md z-20 p-2 rounded-xl transition-all">
+          <h2 className="text-2xl font-bold text-slate-800">{t.editor.title}</h2>
+          <div className="flex gap-3">
+              <button 
+                  onClick={handleExportScheme}
+                  disabled={isPackageBusy}
+                  className="w-10 h-10 rounded-full bg-white text-slate-500 flex items-center justify-center shadow-sm active:scale-95 transition-transform disabled:opacity-50"
+              >
+                  <Download size={20} />
+              </button>
+              <button onClick={schemes.discardEditor} className="w-10 h-10 rounded-full bg-white text-slate-500 flex items-center justify-center shadow-sm active:scale-95 transition-transform">
+                  <X size={20} />
+              </button>
+              <button 
+                  onClick={schemes.saveEditor}
+                  disabled={ruleErrors.length > 0}
+                  className="px-5 h-10 rounded-full bg-pink-300 text-slate-900 text-sm font-bold shadow-sm active:scale-95 transition-transform flex items-center gap-2 disabled:opacity-50"
+              >
+                  <Check size={18} /> {t.common.save}
+              </button>
+          </div>
+        </div>
+
+        <div className="bg-white p-5 rounded-[2rem] shadow-sm shadow-purple-100 mb-4">
+           <label className="block text-xs font-bold text-slate-400 mb-2 uppercase tracking-wider">{t.editor.schemeName}</label>
+           <input 
+              type="text" 
+              value={editor.name} 
+              onChange={(e) => updateEditor(s => ({ ...s, name: e.target.value }))}
+              className="w-full px-4 py-3 bg-slate-50 border-0 rounded-2xl focus:ring-2 focus:ring-pink-200 focus:bg-white outline-none transition text-slate-800 font-medium"
+           />
+        </div>
+
+        {/* Bulk Import */}
+        <div 
+            onDragOver={(e) => { e.preventDefault(); setIsDropTarget(true); }}
+            onDragLeave={() => setIsDropTarget(false)}
+            onDrop={handleBulkDrop}
+            className={`bg-white p-5 rounded-[2rem] shadow-sm shadow-purple-100 border-2 border-dashed transition ${isDropTarget ? 'border-pink-300 bg-pink-50' : 'border-transparent'}`}
+        >
+           <h3 className="font-bold text-slate-700 text-base mb-1">{t.editor.bulkTitle}</h3>
+           <p className="text-xs text-slate-400 mb-3">{t.editor.bulkHint}</p>
+           <div className="flex gap-3">
+              {([[t.editor.pickFolder, true], [t.editor.pickFiles, false]] as const).map(([label, directory]) => (
+                <label key={label} className="flex-1 py-2.5 bg-slate-100 text-slate-600 rounded-xl text-xs font-bold active:scale-95 transition flex items-center justify-center gap-1 cursor-pointer">
+                   <input 
+                     type="file" 
+                     multiple 
+                     accept={directory ? undefined : 'audio/*'}
+                     className="hidden"
+                     {...(directory && { webkitdirectory: '' })}
+                     onChange={(e) => {
+                         if (e.target.files) handleBulkEntries(entriesFromFileList(e.target.files));
+                         e.target.value = '';
+                     }}
+                   />
+                   {directory ? <FolderOpen size={14} /> : <Upload size={14} />} {label}
+                </label>
+              ))}
+           </div>
+        </div>
+
+        <div className="bg-white p-5 rounded-[2rem] shadow-sm shadow-purple-100">
+           <div className="flex justify-between items-center mb-3">
+              <h3 className="font-bold text-slate-700 text-base">{t.editor.rules}</h3>
+              <button 
+                  onClick={() => handleUpdateRules(DEFAULT_RULES)}
+                  className="w-8 h-8 bg-slate-100 text-slate-500 rounded-full hover:bg-slate-200 active:scale-95 transition flex items-center justify-center"
+              >
+                  <RotateCcw size={14} />
+              </button>
+           </div>
+
+           <label className="block text-xs font-bold text-slate-400 mb-2 uppercase tracking-wider">{t.editor.bands}</label>
+           <div className="space-y-2 mb-4">
+              {BAND_LEVELS.map(level => (
+                <div key={level} className="flex items-center gap-2">
+                  <span className="bg-purple-100 text-purple-600 text-[10px] px-2 py-1 rounded-full font-mono font-bold shrink-0">LV.{level}</span>
+                  <input 
+                     type="number" 
+                     value={Number.isNaN(editor.rules.bands[level].min) ? '' : editor.rules.bands[level].min}
+                     onChange={(e) => handleUpdateBand(level, 'min', numberValue(e.target.value))}
+                     className={ruleInputClass}
+                  />
+                  <span className="text-slate-400">-</span>
+                  <input 
+                     type="number" 
+                     value={Number.isNaN(editor.rules.bands[level].max) ? '' : editor.rules.bands[level].max}
+                     onChange={(e) => handleUpdateBand(level, 'max', numberValue(e.target.value))}
+                     className={ruleInputClass}
+                  />
+                </div>
+              ))}
+           </div>
+
+           <div className="grid grid-cols-2 gap-3">
+              <label className="block">
+                 <span className="block text-xs font-bold text-slate-400 mb-1">{t.editor.burstThreshold}</span>
+                 <input 
+                    type="number" min="1" step="1"
+                    value={Number.isNaN(editor.rules.burstThreshold) ? '' : editor.rules.burstThreshold}
+                    onChange={(e) => handleUpdateRules({ burstThreshold: numberValue(e.target.value) })}
+                    className={ruleInputClass}
+                 />
+              </label>
+              <label className="block">
+                 <span className="block text-xs font-bold text-slate-400 mb-1">{t.editor.heartbeat}</span>
+                 <input 
+                    type="number" min="0.25" step="0.25"
+                    value={Number.isNaN(editor.rules.heartbeatMs) ? '' : editor.rules.heartbeatMs / 1000}
+                    onChange={(e) => handleUpdateRules({ heartbeatMs: Math.round(numberValue(e.target.value) * 1000) })}
+                    className={ruleInputClass}
+                 />
+              </label>
+              <label className="block">
+                 <span className="block text-xs font-bold text-slate-400 mb-1">{t.editor.riseRate}</span>
+                 <input 
+                    type="number" min="0" step="0.5"
+                    value={Number.isNaN(editor.rules.riseRate) ? '' : editor.rules.riseRate}
+                    onChange={(e) => handleUpdateRules({ riseRate: numberValue(e.target.value) })}
+                    className={ruleInputClass}
+                 />
+              </label>
+              <label className="block">
+                 <span className="block text-xs font-bold text-slate-400 mb-1">{t.editor.decayRate}</span>
+                 <input 
+                    type="number" min="0" step="1"
+                    value={Number.isNaN(editor.rules.decayRate) ? '' : editor.rules.decayRate}
+                    onChange={(e) => handleUpdateRules({ decayRate: numberValue(e.target.value) })}
+                    className={ruleInputClass}
+                 />
+              </label>
+           </div>
+
+           {ruleErrors.length > 0 && (
+             <ul className="mt-4 space-y-1 bg-red-50 rounded-2xl p-3">
+               {ruleErrors.map(error => (
+                 <li key={`${error.code}-${error.level}`} className="text-xs font-medium text-red-500">
+                   {t.ruleErrors[error.code](error)}
+                 </li>
+               ))}
+             </ul>
+           )}
+        </div>
+
+        {LEVEL_IDS.map((level) => (
+          <div key={level} className="bg-white p-5 rounded-[2rem] shadow-sm shadow-purple-100">
+            <div className="flex justify-between items-center mb-3">
+              <h3 className="font-bold text-slate-700 text-base">{describeLevel(t, level, editor.rules)}</h3>
+              <span className="bg-purple-100 text-purple-600 text-[10px] px-2 py-1 rounded-full font-mono font-bold">
+                  LV.{level}
+              </span>
+            </div>
+
+            <div className="flex items-center gap-2 mb-3">
+              <div className="flex bg-slate-100 rounded-xl p-1 flex-1">
+                {SELECTION_MODES.map(mode => (
+                  <button 
+                      key={mode}
+                      onClick={() => handleUpdateSelection(level, { mode })}
+                      className={`flex-1 py-1.5 rounded-lg text-xs font-bold transition ${
+                          editor.levels[level].selection.mode === mode ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-400'
+                      }`}
+                  >
+                      {t.selectionModes[mode]}
+                  </button>
+                ))}
+              </div>
+              <label className="flex items-center gap-1 text-xs font-bold text-slate-400 shrink-0">
+                {t.editor.cooldown}
+                <input 
+                  type="number" min="0" step="1"
+                  value={editor.levels[level].selection.cooldownMs / 1000}
+                  onChange={(e) => handleUpdateSelection(level, { cooldownMs: Math.max(Number(e.target.value) || 0, 0) * 1000 })}
+                  className="w-14 px-2 py-1.5 bg-slate-50 border-0 rounded-lg focus:ring-2 focus:ring-pink-200 outline-none text-slate-800 font-medium"
+                />
+                {t.common.seconds}
+              </label>
+            </div>
+
+            <div className="flex items-center gap-2 mb-3 text-xs font-bold text-slate-400">
+              <button 
+                  onClick={() => handleUpdateHaptics(level, { enabled: !editor.levels[level].haptics.enabled })}
+                  className={`flex items-center gap-1 px-2 py-1.5 rounded-lg transition active:scale-95 shrink-0 ${
+                      editor.levels[level].haptics.enabled ? 'bg-pink-100 text-pink-600' : 'bg-slate-100 text-slate-400'
+                  }`}
+              >
+                  <Vibrate size={14} /> {t.editor.haptics}
+              </button>
+              {(['pulseMs', 'gapMs'] as const).map(key => (
+                <label key={key} className="flex items-center gap-1 min-w-0">
+                  {key === 'pulseMs' ? t.editor.pulse : t.editor.gap}
+                  <input 
+                    type="number" min={key === 'pulseMs' ? 10 : 0} step="10"
+                    value={editor.levels[level].haptics[key]}
+                    disabled={!editor.levels[level].haptics.enabled}
+                    onChange={(e) => handleUpdateHaptics(level, { [key]: Math.max(Number(e.target.value) || 0, key === 'pulseMs' ? 10 : 0) })}
+                    className="w-16 px-2 py-1.5 bg-slate-50 border-0 rounded-lg focus:ring-2 focus:ring-pink-200 outline-none text-slate-800 font-medium disabled:opacity-50"
+                  />
+                  {t.common.milliseconds}
+                </label>
+              ))}
+              <button 
+                  onClick={() => handleTryHaptics(level)}
+                  disabled={!haptics.supported}
+                  className="ml-auto px-2 py-1.5 bg-purple-100 text-purple-700 rounded-lg active:scale-95 transition disabled:opacity-50 shrink-0"
+              >
+                  {t.editor.tryHaptics}
+              </button>
+            </div>
+            {level === 1 && !haptics.supported && (
+              <div className="text-[10px] font-medium text-slate-400 -mt-1 mb-3">{t.editor.hapticsUnsupported}</div>
+            )}
+            
+            <div className="bg-slate-50 rounded-2xl p-3 mb-4 min-h-[60px] max-h-[240px] overflow-y-auto border border-slate-100">
+              {editor.levels[level as 1|2|3|4|5].files.length === 0 ? (
+                <span className="text-slate-400 text-sm flex items-center justify-center h-full">{t.editor.noFiles}</span>
+              ) : (
+                <ul className="space-y-2">
+                  {editor.levels[level as 1|2|3|4|5].files.map((f, i) => (
+                    <li 
+                        key={f.id} 
+                        data-level={level}
+                        data-file-index={i}
+                        className={`text-xs text-slate-600 bg-white p-2 rounded-lg shadow-sm space-y-1 transition ${
+                            fileDrag?.level === level && fileDrag.from === i ? 'opacity-50' : ''
+                        } ${fileDrag?.level === level && fileDrag.over === i && fileDrag.from !== i ? 'ring-2 ring-pink-200' : ''}`}
+                    >
+                      <div className="flex items-center gap-2">
+                        <span 
+                            onPointerDown={(e) => {
+                                e.currentTarget.setPointerCapture(e.pointerId);
+                                setFileDrag({ level: level, from: i, over: i });
+                            }}
+                            onPointerMove={handleFileDragMove}
+                            onPointerUp={handleFileDragEnd}
+                            onPointerCancel={() => setFileDrag(null)}
+                            className="text-slate-300 cursor-grab touch-none shrink-0"
+                        >
+                            <GripVertical size={14} />
+                        </span>
+                        <button 
+                            onClick={() => schemes.previewFile(f)}
+                            className="w-6 h-6 rounded-full bg-pink-100 text-pink-500 flex items-center justify-center shrink-0 active:scale-95 transition"
+                        >
+                            <Play size={12} />
+                        </button>
+                        <span className="truncate flex-1">{f.name}</span>
+                        {editor.levels[level].selection.mode === 'weighted' && (
+                          <input 
+                            type="number" min="0" step="1"
+                            value={f.weight}
+                            onChange={(e) => handleUpdateFileWeight(f.id, Number(e.target.value) || 0)}
+                            className="w-12 px-1.5 py-0.5 bg-slate-50 border-0 rounded-md focus:ring-2 focus:ring-pink-200 outline-none text-slate-800 font-mono text-[10px] shrink-0"
+                          />
+                        )}
+                        {f.error ? (
+                          <span title={f.error} className="flex items-center gap-1 text-[10px] font-bold text-red-400 shrink-0">
+                            <TriangleAlert size={12} /> {t.editor.unplayable}
+                          </span>
+                        ) : (
+                          <span className="font-mono text-[10px] text-slate-400 shrink-0">
+                            {!isAnalysed(f) ? t.editor.analysing : f.loudness === undefined ? '—' : `${fmt.number(f.loudness, 1)} LUFS`}
+                          </span>
+                        )}
+                        <button 
+                            onClick={() => setExpandedFileId(expandedFileId === f.id ? null : f.id)}
+                            className={`w-6 h-6 rounded-full flex items-center justify-center shrink-0 active:scale-95 transition ${
+                                expandedFileId === f.id ? 'bg-purple-100 text-purple-600' : 'text-slate-400'
+                            }`}
+                        >
+                            <Ellipsis size={14} />
+                        </button>
+                      </div>
+                      {expandedFileId === f.id && (
+                        <div className="bg-slate-50 rounded-lg p-2 space-y-2">
+                          <div className="font-mono text-[10px] text-slate-400">
+                            {[
+                              f.durationMs !== undefined && formatDuration(f.durationMs),
+                              f.sampleRate !== undefined && `${fmt.number(f.sampleRate / 1000, 1)} kHz`,
+                              f.size !== undefined && `${fmt.number(f.size / 1024 / 1024, 1)} MB`,
+                            ].filter(Boolean).join(' · ')}
+                            {f.error && <div className="text-red-400 break-all">{f.error}</div>}
+                          </div>
+                          <input 
+                            type="text"
+                            value={f.name}
+                            onChange={(e) => handleRenameFile(f.id, e.target.value)}
+                            className="w-full px-2 py-1.5 bg-white border-0 rounded-md focus:ring-2 focus:ring-pink-200 outline-none text-slate-800 font-medium"
+                          />
+                          {([[t.editor.moveTo, handleMoveFile], [t.editor.copyTo, handleCopyFile]] as const).map(([label, action]) => (
+                            <div key={label} className="flex items-center gap-1">
+                              <span className="text-[10px] text-slate-400 w-12 shrink-0">{label}</span>
+                              {LEVEL_IDS.map(target => (
+                                <button 
+                                    key={target}
+                                    onClick={() => action(f.id, target)}
+                                    disabled={action === handleMoveFile && target === level}
+                                    className="flex-1 py-1 bg-white rounded-md text-[10px] font-mono font-bold text-purple-600 active:scale-95 transition disabled:opacity-30"
+                                >
+                                    LV.{target}
+                                </button>
+                              ))}
+                            </div>
+                          ))}
+                          <button 
+                              onClick={() => handleDeleteFile(f.id)}
+                              className="w-full py-1.5 bg-white text-red-400 rounded-md text-[10px] font-bold active:scale-95 transition flex items-center justify-center gap-1"
+                          >
+                              <Trash2 size={12} /> {t.common.delete}
+                          </button>
+                        </div>
+                      )}
+                      <div className="flex items-center gap-2">
+                        <span className="text-[10px] text-slate-400 shrink-0">{t.editor.gain}</span>
+                        <input 
+                          type="range" 
+                          min="-12" max="12" step="0.5" 
+                          value={f.trimDb} 
+                          onChange={(e) => handleUpdateFileTrim(f.id, parseFloat(e.target.value))}
+                          className="material-slider"
+                        />
+                        <span className="font-mono text-[10px] text-slate-500 w-14 text-right shrink-0">
+                          {fmt.signed(f.trimDb, 1)} dB
+                        </span>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {/* Ambient track, looped under the clips */}
+            {editor.levels[level].ambient ? (
+              <div className="flex items-center gap-2 bg-slate-50 rounded-2xl p-3 mb-4 border border-slate-100 text-xs text-slate-600">
+                <Waves size={14} className="text-pink-300 shrink-0" />
+                <span className="text-[10px] font-bold text-slate-400 shrink-0">{t.editor.ambient}</span>
+                <span className="flex-1 min-w-0 truncate font-medium">{editor.levels[level].ambient!.name}</span>
+                {editor.levels[level].ambient!.error && <TriangleAlert size={12} className="text-red-400 shrink-0" />}
+                <button 
+                    onClick={() => schemes.previewFile(editor.levels[level].ambient!)}
+                    className="w-6 h-6 rounded-full bg-pink-100 text-pink-500 flex items-center justify-center shrink-0 active:scale-95 transition"
+                >
+                    <Play size={12} />
+                </button>
+                <button 
+                    onClick={() => schemes.setAmbient(level, null)}
+                    aria-label={t.common.delete}
+                    className="w-6 h-6 text-slate-300 flex items-center justify-center shrink-0 active:scale-95 transition"
+                >
+                    <X size={12} />
+                </button>
+              </div>
+            ) : (
+              <label className="flex items-center justify-center gap-2 rounded-2xl p-3 mb-4 border border-dashed border-slate-200 text-xs font-bold text-slate-400 cursor-pointer active:scale-95 transition">
+                <input 
+                  type="file" 
+                  accept="audio/*" 
+                  className="hidden"
+                  onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) schemes.setAmbient(level, file);
+                      e.target.value = '';
+                  }}
+                />
+                <Waves size={14} /> {t.editor.chooseAmbient}
+              </label>
+            )}
+
+            <div className="flex gap-3">
+              <label className="flex-1 relative cursor-pointer group">
+                 <input 
+                   type="file" 
+                   multiple 
+                   accept="audio/*" 
+                   className="hidden"
+                   onChange={(e) => handleImportFiles(level, e.target.files)}
+                 />
+                 <div className="w-full py-3 bg-pink-300 text-slate-900 rounded-2xl flex items-center justify-center font-bold text-sm active:scale-95 transition-all group-hover:bg-pink-300/90">
+                   <Upload size={18} className="mr-2" /> {t.editor.importAudio}
+                 </div>
+              </label>
+              <button 
+                  onClick={() => schemes.clearLevel(level)}
+                  className="w-12 bg-slate-100 text-slate-500 rounded-2xl hover:bg-slate-200 active:scale-95 transition flex items-center justify-center"
+              >
+                  <RotateCcw size={18} />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {bulkImport && (
+        <BulkImportReview
+            initialItems={bulkImport}
+            onCancel={() => setBulkImport(null)}
+            onConfirm={(items) => { schemes.addBulkImport(items); setBulkImport(null); }}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { Languages } from 'lucide-react';
+import type { SessionProgram } from '../types';
+import { LOCALES, MESSAGES } from '../i18n';
+import type { Settings as AppSettings } from '../store';
+import { useAppState, useMessages, useServices } from './AppContext';
+import { CalibrationDialog } from './CalibrationDialog';
+import { DeviceCheckDialog } from './DeviceCheckDialog';
+import { ManualControlsPanel } from './ManualControlsPanel';
+import { MetersPanel } from './MetersPanel';
+import { MotionSourcePanel } from './MotionSourcePanel';
+import { PlaybackSettingsPanel } from './PlaybackSettingsPanel';
+import { ProgramDialog } from './ProgramDialog';
+import { ProgramPanel } from './ProgramPanel';
+import { RecordingPanel } from './RecordingPanel';
+import { RemotePanel } from './RemotePanel';
+import { SchemeListPanel } from './SchemeListPanel';
+
+// --- Main View ---
+// The dashboard card sets a transform, which would trap fixed dialogs inside it, so the
+// dialogs its panels open are rendered here.
+
+export const MainView = ({ applyUpdate, onDismissUpdate }: {
+  applyUpdate: (() => void) | null; // Set when a new version is waiting
+  onDismissUpdate: () => void;
+}) => {
+  const { store, session } = useServices();
+  const locale = useAppState(state => state.settings.locale);
+  const masterSwitch = useAppState(state => state.masterSwitch);
+  const currentMotion = useAppState(state => state.meters.motion);
+  const deviceCheck = useAppState(state => state.deviceCheck);
+  const t = useMessages();
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const [editingProgram, setEditingProgram] = useState<SessionProgram | null>(null);
+
+  const nextLocale = LOCALES[(LOCALES.indexOf(locale) + 1) % LOCALES.length]; // Target of the language button
+
+  const setSettings = (patch: Partial<AppSettings>) => store.dispatch({ type: 'settingsChanged', patch });
+
+  return (
+    <div className="min-h-screen select-none pb-10">
+      <div className="max-w-md mx-auto p-5 space-y-6">
+        
+        {/* Update Prompt */}
+        {applyUpdate && (
+          <div className="flex items-center justify-between bg-slate-900 text-white rounded-2xl p-3 pl-4 shadow-lg">
+            <span className="text-sm font-bold">{t.update.available}{masterSwitch && t.update.afterSession}</span>
+            <div className="flex gap-2">
+              <button 
+                  onClick={onDismissUpdate}
+                  className="px-3 py-1.5 text-slate-400 text-xs font-bold active:scale-95 transition"
+              >
+                  {t.update.later}
+              </button>
+              <button 
+                  onClick={applyUpdate}
+                  disabled={masterSwitch}
+                  className="px-3 py-1.5 bg-pink-300 text-slate-900 rounded-xl text-xs font-bold active:scale-95 transition disabled:opacity-50"
+              >
+                  {t.update.apply}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Top Header & Master Switch */}
+        <header className="flex justify-between items-center pt-2 pb-2">
+          <h1 className="text-3xl font-black text-slate-800 tracking-tight">Joysound</h1>
+          <div className="flex items-center gap-3">
+            <button 
+              onClick={() => setSettings({ locale: nextLocale })}
+              aria-label={t.main.language}
+              className="flex items-center gap-1 bg-white text-slate-500 px-3 h-9 rounded-full text-xs font-bold shadow-sm active:scale-95 transition"
+            >
+              <Languages size={14} /> {MESSAGES[nextLocale].languageName}
+            </button>
+            <button 
+              onClick={session.toggle}
+              className={`w-16 h-9 rounded-full transition-colors relative shadow-inner ${masterSwitch ? 'bg-pink-300' : 'bg-slate-200'}`}
+            >
+              <div className={`w-7 h-7 bg-white rounded-full absolute top-1 transition-all shadow-md duration-300 ease-out-back ${masterSwitch ? 'translate-x-8' : 'translate-x-1'}`} />
+            </button>
+          </div>
+        </header>
+
+        {/* Main Dashboard Card */}
+        <div className="bg-white rounded-[2.5rem] p-7 shadow-xl shadow-purple-100/50 space-y-7 relative overflow-hidden transform-gpu">
+           {/* Vibration Visualizer Background effect */}
+           <div 
+                className="absolute right-0 top-0 w-full h-full pointer-events-none opacity-5 bg-purple-500 transition-transform duration-100 origin-bottom will-change-transform"
+                style={{ transform: `scaleY(${currentMotion / 20})` }}
+           />
+
+          <PlaybackSettingsPanel />
+          <ProgramPanel onEdit={setEditingProgram} />
+          <MotionSourcePanel onCalibrate={() => setIsCalibrating(true)} />
+          <MetersPanel />
+        </div>
+
+        <ManualControlsPanel />
+
+        <RemotePanel />
+
+        <RecordingPanel />
+
+        <SchemeListPanel />
+
+      </div>
+
+      {deviceCheck && <DeviceCheckDialog deviceCheck={deviceCheck} />}
+      {isCalibrating && <CalibrationDialog onClose={() => setIsCalibrating(false)} />}
+      {editingProgram && <ProgramDialog program={editingProgram} onClose={() => setEditingProgram(null)} />}
+    </div>
+  );
+};
@@ -0,0 +1,83 @@
+import { Repeat, SkipForward, SlidersHorizontal } from 'lucide-react';
+import { LEVEL_IDS } from '../types';
+import { maxPleasure } from '../engine/rules';
+import { selectActiveScheme } from '../store';
+import { useAppState, useMessages, useServices } from './AppContext';
+
+// --- Manual Controls ---
+// Skip, replay, level pinning and the manual pleasure slider.
+
+export const ManualControlsPanel = () => {
+  const { session } = useServices();
+  const masterSwitch = useAppState(state => state.masterSwitch);
+  const pinnedLevel = useAppState(state => state.pinnedLevel);
+  const manualMode = useAppState(state => state.manualMode);
+  const pleasure = useAppState(state => state.meters.pleasure);
+  const activeRules = useAppState(selectActiveScheme).rules;
+  const t = useMessages();
+
+  return (
+    <div className="bg-white rounded-[2rem] p-5 shadow-sm shadow-purple-100 space-y-3">
+        <span className="flex items-center gap-2 text-sm font-bold text-slate-500">
+            <SlidersHorizontal size={18} className="text-pink-300"/> {t.manual.title}
+        </span>
+        <div className="flex gap-2">
+            <button 
+                onClick={session.skip}
+                disabled={!masterSwitch}
+                className="flex-1 py-2.5 bg-pink-300 text-slate-900 rounded-xl text-xs font-bold active:scale-95 transition flex items-center justify-center gap-1 disabled:opacity-50"
+            >
+                <SkipForward size={14} /> {t.manual.skip}
+            </button>
+            <button 
+                onClick={session.replayLast}
+                disabled={!masterSwitch}
+                className="flex-1 py-2.5 bg-slate-100 text-slate-600 rounded-xl text-xs font-bold active:scale-95 transition flex items-center justify-center gap-1 disabled:opacity-50"
+            >
+                <Repeat size={14} /> {t.manual.replay}
+            </button>
+        </div>
+        <div className="space-y-1">
+            <div className="text-[10px] font-bold text-slate-400">{t.manual.pin}</div>
+            <div className="flex bg-slate-100 rounded-xl p-1">
+              {[null, ...LEVEL_IDS].map(level => (
+                <button 
+                    key={level ?? 'auto'}
+                    onClick={() => session.pinLevel(level)}
+                    className={`flex-1 py-1.5 rounded-lg text-xs font-bold transition ${
+                        pinnedLevel === level ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-400'
+                    }`}
+                >
+                    {level === null ? t.manual.auto : `LV.${level}`}
+                </button>
+              ))}
+            </div>
+        </div>
+        <div className="space-y-2">
+            <div className="flex items-center justify-between">
+                <span className="text-[10px] font-bold text-slate-400">{t.manual.mode}</span>
+                <button 
+                    onClick={() => session.setManualMode(!manualMode)}
+                    role="switch"
+                    aria-checked={manualMode}
+                    className={`w-11 h-6 rounded-full p-0.5 transition ${manualMode ? 'bg-pink-300' : 'bg-slate-200'}`}
+                >
+                    <span className={`block w-5 h-5 bg-white rounded-full shadow-sm transition-transform ${manualMode ? 'translate-x-5' : ''}`} />
+                </button>
+            </div>
+            {manualMode ? (
+              <input 
+                type="range" 
+                min="0" max={maxPleasure(activeRules)} step="1" 
+                value={pleasure} 
+                onChange={(e) => session.setManualPleasure(parseInt(e.target.value))}
+                className="material-slider"
+                style={{ backgroundSize: `${Math.min(pleasure / maxPleasure(activeRules), 1) * 100}% 100%` }}
+              />
+            ) : (
+              <div className="text-[10px] font-medium text-slate-300">{t.manual.modeHint}</div>
+            )}
+        </div>
+    </div>
+  );
+};
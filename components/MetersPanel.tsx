@@ -0,0 +1,101 @@
+import { TriangleAlert, Zap } from 'lucide-react';
+import { maxPleasure } from '../engine/rules';
+import { selectActiveScheme } from '../store';
+import { useAppState, useFormatter, useMessages, useServices } from './AppContext';
+
+// --- Meters ---
+// Pleasure, dirty talk and the motion monitor, plus the tap pad for the tap input.
+
+export const MetersPanel = () => {
+  const { store, session, remote: pairing } = useServices();
+  const meters = useAppState(state => state.meters);
+  const activeRules = useAppState(selectActiveScheme).rules;
+  const motionSourceId = useAppState(state => state.settings.motionSourceId);
+  const masterSwitch = useAppState(state => state.masterSwitch);
+  const remoteRole = useAppState(state => state.remote?.role ?? null);
+  const t = useMessages();
+  const fmt = useFormatter();
+
+  const { pleasure, dirtyTalk, motion: currentMotion, intensity, frequencyHz, stalled: motionStalled } = meters;
+  const openDeviceCheck = () => store.dispatch({ type: 'deviceCheckOpened', failure: null });
+
+  return (
+    <>
+      {/* Meters */}
+      <div className="grid grid-cols-2 gap-4 relative z-10">
+         {/* Pleasure Meter */}
+         <div className="bg-[#F9F8FC] rounded-3xl p-4 flex flex-col items-center justify-center space-y-3 border border-slate-50">
+            <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t.main.pleasure}</span>
+            <div className="relative w-full h-32 bg-slate-200 rounded-full overflow-hidden transform-gpu">
+               <div 
+                 className="absolute bottom-0 left-0 w-full bg-pink-300 transition-all duration-500 ease-out will-change-transform"
+                 style={{ height: `${Math.min(pleasure / maxPleasure(activeRules), 1) * 100}%` }}
+               />
+            </div>
+            <span className="text-3xl font-black text-slate-700">{pleasure}</span>
+         </div>
+
+         {/* Dirty Talk Meter */}
+         <div className="bg-[#F9F8FC] rounded-3xl p-4 flex flex-col items-center justify-center space-y-3 border border-slate-50">
+            <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t.main.dirtyTalk}</span>
+            <div className="relative w-24 h-24 transform-gpu">
+               <svg className="w-full h-full -rotate-90">
+                  <circle cx="48" cy="48" r="40" stroke="#E2E8F0" strokeWidth="10" fill="none"/>
+                  <circle 
+                    cx="48" cy="48" r="40" 
+                    stroke="#F9A8D4" strokeWidth="10" fill="none"
+                    strokeLinecap="round"
+                    strokeDasharray={251.2}
+                    strokeDashoffset={251.2 - (251.2 * Math.min(dirtyTalk / activeRules.burstThreshold, 1))}
+                    className="transition-all duration-300 ease-linear will-change-transform"
+                  />
+               </svg>
+               <div className="absolute inset-0 flex items-center justify-center">
+                  <span className="text-2xl font-black text-slate-700">{dirtyTalk}</span>
+               </div>
+            </div>
+         </div>
+      </div>
+
+      {/* Vibration Monitor */}
+       <div className={`flex items-center justify-between bg-slate-900 rounded-2xl p-4 text-white relative overflow-hidden shadow-inner ${motionStalled ? 'ring-2 ring-red-400' : ''}`}>
+          <div className="flex items-center gap-2 z-10">
+            <Zap size={18} className={`transition-colors duration-200 ${currentMotion > 5 ? "text-yellow-300" : "text-slate-600"}`} />
+            <span className="text-xs font-bold tracking-wider text-slate-400">{t.main.monitor}</span>
+            {motionStalled ? (
+              <button 
+                  onClick={() => openDeviceCheck()}
+                  className="flex items-center gap-1 text-[10px] font-bold text-red-400 underline active:scale-95 transition"
+              >
+                <TriangleAlert size={12} /> {t.main.motionStalled}
+              </button>
+            ) : intensity > 0 && (
+              <span className="text-[10px] font-mono text-slate-500">
+                ×{fmt.number(intensity, 1)}{frequencyHz !== null && ` · ${fmt.number(frequencyHz, 1)} Hz`}
+              </span>
+            )}
+          </div>
+          <div className="flex gap-1 items-end h-6 z-10">
+            {[...Array(10)].map((_, i) => (
+                <div 
+                    key={i} 
+                    className={`w-1.5 rounded-full transition-all duration-75 will-change-transform ${i < (currentMotion/10) ? 'bg-pink-400' : 'bg-slate-800'}`}
+                    style={{ height: i < (currentMotion/10) ? '100%' : '20%'}}
+                />
+            ))}
+          </div>
+       </div>
+
+      {/* Tap Pad for the tap input source; a controller sends the taps to its player */}
+      {motionSourceId === 'tap' && (
+        <button 
+            onPointerDown={remoteRole === 'controller' ? pairing.tap : session.tap}
+            disabled={!masterSwitch && remoteRole !== 'controller'}
+            className="w-full py-6 bg-[#F9F8FC] rounded-2xl border-2 border-dashed border-pink-200 text-sm font-bold text-slate-400 active:bg-pink-50 transition relative z-10 disabled:opacity-50"
+        >
+            {t.main.tapPad}
+        </button>
+      )}
+    </>
+  );
+};
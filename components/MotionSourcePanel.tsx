@@ -0,0 +1,73 @@
+import { CircleHelp, Crosshair, Radio } from 'lucide-react';
+import type { MotionSourceId } from '../engine/motionSources';
+import { useAppState, useMessages, useServices } from './AppContext';
+
+// --- Motion Input Picker ---
+// Which input drives the session. Calibration opens in the main view, outside the dashboard card.
+
+const MOTION_SOURCE_IDS: MotionSourceId[] = ['devicemotion', 'tap', 'microphone', 'script'];
+
+export const MotionSourcePanel = ({ onCalibrate }: { onCalibrate: () => void }) => {
+  const { store, session } = useServices();
+  const motionSourceId = useAppState(state => state.settings.motionSourceId);
+  const calibrations = useAppState(state => state.settings.calibrations);
+  const masterSwitch = useAppState(state => state.masterSwitch);
+  const remoteRole = useAppState(state => state.remote?.role ?? null);
+  const t = useMessages();
+
+  const openDeviceCheck = () => store.dispatch({ type: 'deviceCheckOpened', failure: null });
+
+  return (
+    <>
+      {/* Motion Input Source */}
+      <div className="space-y-3 relative z-10">
+         <div className="flex justify-between text-sm font-bold text-slate-500">
+           <span className="flex items-center gap-2"><Radio size={18} className="text-pink-300"/> {t.main.motionSource}</span>
+           <div className="flex items-center gap-2">
+             <button 
+                 onClick={() => openDeviceCheck()}
+                 aria-label={t.onboarding.open}
+                 className="flex items-center bg-purple-100 text-purple-700 px-1.5 py-0.5 rounded-md text-xs active:scale-95 transition"
+             >
+                 <CircleHelp size={12} />
+             </button>
+             <button 
+                 onClick={onCalibrate}
+                 disabled={masterSwitch || remoteRole !== null}
+                 className="flex items-center gap-1 bg-purple-100 text-purple-700 px-2 py-0.5 rounded-md text-xs active:scale-95 transition disabled:opacity-50"
+             >
+                 <Crosshair size={12} /> {calibrations[motionSourceId] ? t.main.calibrated : t.main.calibrate}
+             </button>
+           </div>
+         </div>
+         {/* Locked while paired; a player shows the remote input it was switched to */}
+         <div className={`flex bg-slate-100 rounded-xl p-1 ${remoteRole ? 'pointer-events-none opacity-50' : ''}`} inert={remoteRole !== null}>
+           {(motionSourceId === 'remote' ? [...MOTION_SOURCE_IDS, motionSourceId] : MOTION_SOURCE_IDS).map(id => {
+             const className = `flex-1 py-1.5 rounded-lg text-xs font-bold transition text-center ${
+                 motionSourceId === id ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-400'
+             }`;
+             // The script source needs a file first
+             return id === 'script' ? (
+               <label key={id} className={`${className} cursor-pointer`}>
+                 <input 
+                     type="file" 
+                     accept=".json,application/json"
+                     className="hidden"
+                     onChange={(e) => {
+                         session.loadMotionScript(e.target.files);
+                         e.target.value = '';
+                     }}
+                 />
+                 {t.motionSources[id]}
+               </label>
+             ) : (
+               <button key={id} onClick={() => store.dispatch({ type: 'motionSourceSelected', id })} className={className}>
+                 {t.motionSources[id]}
+               </button>
+             );
+           })}
+         </div>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,63 @@
+import { Check, Info, TriangleAlert, X } from 'lucide-react';
+import { useAppState, useMessages, useServices } from './AppContext';
+
+// --- Notifications ---
+// Toasts and the confirmation dialog, shared by both views
+
+const TOAST_ICONS = { success: Check, error: TriangleAlert, info: Info };
+
+export const Notifications = () => {
+  const { notifications } = useServices();
+  const toasts = useAppState(state => state.toasts);
+  const confirmRequest = useAppState(state => state.confirmRequest);
+  const t = useMessages();
+
+  return (
+    <>
+      {confirmRequest && (
+        <div className="fixed inset-0 z-40 bg-slate-900/40 backdrop-blur-sm flex items-end sm:items-center justify-center p-4">
+          <div className="bg-white w-full max-w-md rounded-[2rem] p-6 shadow-xl space-y-5">
+            <div className="text-base font-bold text-slate-800">{confirmRequest.message}</div>
+            <div className="flex gap-3">
+              <button
+                  onClick={notifications.dismissConfirm}
+                  className="flex-1 py-3 bg-slate-100 text-slate-500 rounded-2xl font-bold text-sm active:scale-95 transition"
+              >
+                  {t.common.cancel}
+              </button>
+              <button
+                  onClick={() => { confirmRequest.onConfirm(); notifications.dismissConfirm(); }}
+                  className="flex-1 py-3 bg-pink-300 text-slate-900 rounded-2xl font-bold text-sm active:scale-95 transition"
+              >
+                  {confirmRequest.confirmLabel}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="fixed bottom-4 inset-x-0 z-50 flex flex-col items-center gap-2 px-4 pointer-events-none">
+        {toasts.map(toast => {
+          const Icon = TOAST_ICONS[toast.kind];
+          return (
+            <div key={toast.id} className="w-full max-w-md flex items-center gap-2 bg-slate-900 text-white rounded-2xl p-3 pl-4 shadow-lg pointer-events-auto">
+              <Icon size={16} className={`shrink-0 ${toast.kind === 'error' ? 'text-red-400' : 'text-pink-300'}`} />
+              <span className="text-sm font-bold flex-1 min-w-0 break-words">{toast.message}</span>
+              {toast.action && (
+                <button
+                    onClick={() => { toast.action!.run(); notifications.closeToast(toast.id); }}
+                    className="px-3 py-1.5 bg-pink-300 text-slate-900 rounded-xl text-xs font-bold active:scale-95 transition shrink-0"
+                >
+                    {toast.action.label}
+                </button>
+              )}
+              <button onClick={() => notifications.closeToast(toast.id)} className="w-7 h-7 text-slate-400 flex items-center justify-center shrink-0 active:scale-95 transition">
+                <X size={14} />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </>
+  );
+};
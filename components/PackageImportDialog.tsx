@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { Check, Waves } from 'lucide-react';
+import { LEVEL_IDS } from '../types';
+import type { SchemePackagePreview } from '../engine/schemePackage';
+import { useAppState, useFormatter, useMessages, useServices } from './AppContext';
+import { describeLevel } from './format';
+
+// --- Scheme Package Import Preview ---
+
+export const PackageImportDialog = ({ preview, onClose }: { preview: SchemePackagePreview; onClose: () => void }) => {
+  const services = useServices();
+  const schemes = useAppState(state => state.schemes);
+  const t = useMessages();
+  const fmt = useFormatter();
+  const [name, setName] = useState(preview.name);
+  const [replaceExisting, setReplaceExisting] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const finalName = name.trim() || preview.name;
+
+  const handleConfirm = () => {
+    if (isBusy) return;
+    setIsBusy(true);
+    services.schemes.importPackage(preview, finalName, replaceExisting).then(imported => {
+      setIsBusy(false);
+      if (imported) onClose();
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-30 bg-slate-900/40 backdrop-blur-sm flex items-end sm:items-center justify-center p-4">
+      <div className="bg-white w-full max-w-md rounded-[2rem] p-6 shadow-xl max-h-[85vh] flex flex-col">
+        <h2 className="text-xl font-bold text-slate-800 mb-4">{t.packageImport.title}</h2>
+
+        <label className="block text-xs font-bold text-slate-400 mb-2 uppercase tracking-wider">{t.editor.schemeName}</label>
+        <input 
+           type="text" 
+           value={name} 
+           onChange={(e) => setName(e.target.value)}
+           className="w-full px-4 py-3 bg-slate-50 border-0 rounded-2xl focus:ring-2 focus:ring-pink-200 focus:bg-white outline-none transition text-slate-800 font-medium"
+        />
+        {schemes.some(s => s.name === finalName) && (
+          <div className="mt-3 grid grid-cols-2 gap-2">
+            <button 
+                onClick={() => setReplaceExisting(false)}
+                className={`py-2 rounded-xl text-xs font-bold transition ${!replaceExisting ? 'bg-pink-300 text-slate-900' : 'bg-slate-100 text-slate-500'}`}
+            >
+                {t.packageImport.keepBoth}
+            </button>
+            <button 
+                onClick={() => setReplaceExisting(true)}
+                className={`py-2 rounded-xl text-xs font-bold transition ${replaceExisting ? 'bg-pink-300 text-slate-900' : 'bg-slate-100 text-slate-500'}`}
+            >
+                {t.packageImport.replace}
+            </button>
+          </div>
+        )}
+
+        <div className="mt-4 space-y-3 overflow-y-auto flex-1">
+          {LEVEL_IDS.map(level => (
+            <div key={level} className="bg-slate-50 rounded-2xl p-3 border border-slate-100">
+              <div className="flex justify-between items-center mb-2">
+                <span className="text-xs font-bold text-slate-600">{describeLevel(t, level, preview.rules)}</span>
+                <span className="text-[10px] font-mono font-bold text-purple-600">{preview.levels[level].length}</span>
+              </div>
+              {preview.levels[level].length === 0 ? (
+                <span className="text-slate-400 text-xs">{t.packageImport.noFiles}</span>
+              ) : (
+                <ul className="space-y-1">
+                  {preview.levels[level].map((f, i) => (
+                    <li key={i} className="text-xs text-slate-600 flex justify-between gap-2">
+                      <span className="truncate">{f.name}</span>
+                      <span className="text-slate-400 font-mono shrink-0">{fmt.number(f.size / 1024)} KB</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {preview.ambient[level] && (
+                <div className="mt-1 text-xs text-slate-600 flex justify-between gap-2">
+                  <span className="flex items-center gap-1 min-w-0">
+                    <Waves size={12} className="text-pink-300 shrink-0" />
+                    <span className="truncate">{preview.ambient[level]!.name}</span>
+                  </span>
+                  <span className="text-slate-400 font-mono shrink-0">{fmt.number(preview.ambient[level]!.size / 1024)} KB</span>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-3 mt-5">
+          <button 
+              onClick={onClose}
+              className="flex-1 py-3 bg-slate-100 text-slate-500 rounded-2xl font-bold text-sm active:scale-95 transition"
+          >
+              {t.common.cancel}
+          </button>
+          <button 
+              onClick={handleConfirm}
+              disabled={isBusy}
+              className="flex-1 py-3 bg-pink-300 text-slate-900 rounded-2xl font-bold text-sm active:scale-95 transition flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+              <Check size={18} /> {t.packageImport.confirm}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,106 @@
+import { Activity, Shuffle, Vibrate, VibrateOff, Volume2 } from 'lucide-react';
+import type { Settings } from '../store';
+import { useAppState, useFormatter, useMessages, useServices } from './AppContext';
+
+// --- Playback Settings ---
+// Volumes, crossfade, sensitivity and vibration, on the dashboard card.
+
+export const PlaybackSettingsPanel = () => {
+  const { store, haptics } = useServices();
+  const settings = useAppState(state => state.settings);
+  const t = useMessages();
+  const fmt = useFormatter();
+
+  const { globalVolume, foregroundVolume, backgroundVolume, crossfadeMs, sensitivity, haptics: hapticsOn } = settings;
+  const setSettings = (patch: Partial<Settings>) => store.dispatch({ type: 'settingsChanged', patch });
+
+  return (
+    <>
+      {/* Global Volume */}
+      <div className="space-y-3 relative z-10">
+         <div className="flex justify-between text-sm font-bold text-slate-500">
+           <span className="flex items-center gap-2"><Volume2 size={18} className="text-pink-300"/> {t.main.volume}</span>
+           <span className="text-slate-800">{fmt.percent(globalVolume)}</span>
+         </div>
+         <input 
+           type="range" 
+           min="0" max="1" step="0.01" 
+           value={globalVolume} 
+           onChange={(e) => setSettings({ globalVolume: parseFloat(e.target.value) })}
+           className="material-slider"
+           style={{ backgroundSize: `${globalVolume*100}% 100%` }}
+         />
+         {/* Clips and ambient tracks, mixed under the global volume */}
+         {([
+           ['foregroundVolume', foregroundVolume, t.main.foreground],
+           ['backgroundVolume', backgroundVolume, t.main.background],
+         ] as const).map(([key, value, label]) => (
+           <div key={key} className="flex items-center gap-3 text-xs font-bold text-slate-400">
+             <span className="w-12 shrink-0">{label}</span>
+             <input 
+               type="range" 
+               min="0" max="1" step="0.01" 
+               value={value} 
+               onChange={(e) => setSettings({ [key]: parseFloat(e.target.value) })}
+               className="material-slider"
+               style={{ backgroundSize: `${value*100}% 100%` }}
+             />
+             <span className="w-10 text-right text-slate-500 shrink-0">{fmt.percent(value)}</span>
+           </div>
+         ))}
+      </div>
+
+      {/* Crossfade */}
+      <div className="space-y-3 relative z-10">
+         <div className="flex justify-between text-sm font-bold text-slate-500">
+           <span className="flex items-center gap-2"><Shuffle size={18} className="text-pink-300"/> {t.main.crossfade}</span>
+           <span className="text-slate-800">{fmt.number(crossfadeMs / 1000, 1)}s</span>
+         </div>
+         <input 
+           type="range" 
+           min="0" max="5000" step="100" 
+           value={crossfadeMs} 
+           onChange={(e) => setSettings({ crossfadeMs: parseInt(e.target.value) })}
+           className="material-slider"
+         />
+      </div>
+
+      {/* Sensitivity */}
+      <div className="space-y-3 relative z-10">
+         <div className="flex justify-between text-sm font-bold text-slate-500">
+           <span className="flex items-center gap-2"><Activity size={18} className="text-pink-300"/> {t.main.sensitivity}</span>
+           <span className="bg-purple-100 text-purple-700 px-2 py-0.5 rounded-md text-xs">LV.{sensitivity}</span>
+         </div>
+         <input 
+           type="range" 
+           min="1" max="5" step="1" 
+           value={sensitivity} 
+           onChange={(e) => setSettings({ sensitivity: parseInt(e.target.value) })}
+           className="material-slider"
+         />
+         <div className="flex justify-between text-[10px] font-bold text-slate-300 px-1 mt-1">
+            <span>1</span><span>2</span><span>3</span><span>4</span><span>5</span>
+         </div>
+      </div>
+
+      {/* Haptics */}
+      <div className="flex justify-between items-center text-sm font-bold text-slate-500 relative z-10">
+         <span className="flex items-center gap-2">
+           {hapticsOn ? <Vibrate size={18} className="text-pink-300"/> : <VibrateOff size={18} className="text-pink-300"/>} {t.main.haptics}
+         </span>
+         {haptics.supported ? (
+           <button 
+               onClick={() => setSettings({ haptics: !hapticsOn })}
+               role="switch"
+               aria-checked={hapticsOn}
+               className={`w-11 h-6 rounded-full p-0.5 transition ${hapticsOn ? 'bg-pink-300' : 'bg-slate-200'}`}
+           >
+               <span className={`block w-5 h-5 bg-white rounded-full shadow-sm transition-transform ${hapticsOn ? 'translate-x-5' : ''}`} />
+           </button>
+         ) : (
+           <span className="text-xs text-slate-300">{t.main.hapticsUnsupported}</span>
+         )}
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,180 @@
+import { useState } from 'react';
+import { Check, Plus, Trash2, X } from 'lucide-react';
+import type { ProgramStep, SessionProgram } from '../types';
+import { programDurationMs } from '../engine/programs';
+import { useMessages, useServices } from './AppContext';
+import { formatDuration } from './format';
+
+// --- Session Program Editor ---
+
+const MINUTE_MS = 60000;
+
+// Edits a copy; nothing reaches the store until it's saved
+export const ProgramDialog = ({ program, onClose }: { program: SessionProgram; onClose: () => void }) => {
+  const { store, notifications } = useServices();
+  const t = useMessages();
+  const [draft, setDraft] = useState(program);
+  const isSaved = store.getState().programs.some(p => p.id === program.id);
+  const inputClass = "w-full px-3 py-2 bg-slate-50 border-0 rounded-xl focus:ring-2 focus:ring-pink-200 focus:bg-white outline-none transition text-slate-800 text-sm font-medium";
+
+  const handleUpdateStep = (index: number, patch: Partial<ProgramStep>) => {
+    setDraft(d => ({ ...d, steps: d.steps.map((step, i) => i === index ? { ...step, ...patch } : step) }));
+  };
+
+  // Starts where the last step ended, so adding one doesn't jump
+  const handleAddStep = () => {
+    setDraft(d => {
+      const last = d.steps[d.steps.length - 1];
+      return { ...d, steps: [...d.steps, { durationMs: 5 * MINUTE_MS, floor: last?.floor ?? 0, ceiling: last?.ceiling ?? 1 }] };
+    });
+  };
+
+  const handleRemoveStep = (index: number) => {
+    setDraft(d => ({ ...d, steps: d.steps.filter((_, i) => i !== index) }));
+  };
+
+  const handleSave = () => {
+    store.dispatch({ type: 'programSaved', program: { ...draft, name: draft.name.trim() || program.name } });
+    if (!isSaved) store.dispatch({ type: 'settingsChanged', patch: { activeProgramId: draft.id } });
+    onClose();
+  };
+
+  const handleDelete = () => {
+    notifications.confirm({
+      message: t.dialogs.deleteProgram(program.name),
+      confirmLabel: t.common.delete,
+      onConfirm: () => {
+        store.dispatch({ type: 'programDeleted', id: program.id });
+        onClose();
+      },
+    });
+  };
+
+  const minutes = (ms: number) => Math.round(ms / MINUTE_MS * 10) / 10;
+  const fromMinutes = (raw: string) => Math.max(Number(raw) || 0, 0) * MINUTE_MS;
+  const percent = (fraction: number) => Math.round(fraction * 100);
+  const fromPercent = (raw: string) => Math.min(Math.max(Number(raw) || 0, 0), 100) / 100;
+
+  return (
+    <div className="fixed inset-0 z-30 bg-slate-900/40 backdrop-blur-sm flex items-end sm:items-center justify-center p-4">
+      <div className="bg-white w-full max-w-md rounded-[2rem] p-6 shadow-xl max-h-[85vh] overflow-y-auto space-y-5">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold text-slate-800">{t.program.title}</h2>
+          <span className="text-xs font-bold text-slate-400">{t.program.total(formatDuration(programDurationMs(draft)))}</span>
+        </div>
+
+        <label className="block text-xs font-bold text-slate-400 space-y-1">
+          {t.program.name}
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => setDraft(d => ({ ...d, name: e.target.value }))}
+            className={inputClass}
+          />
+        </label>
+
+        <div className="space-y-2">
+          <div className="text-xs font-bold text-slate-400">{t.program.steps}</div>
+          <div className="text-[10px] font-medium text-slate-400">{t.program.hint}</div>
+          {draft.steps.map((step, i) => (
+            <div key={i} className="flex items-end gap-2 bg-[#F9F8FC] rounded-2xl p-3">
+              <span className="text-xs font-bold text-slate-500 pb-2 shrink-0">{i + 1}</span>
+              <label className="flex-1 text-[10px] font-bold text-slate-400 space-y-1">
+                {t.program.duration}
+                <input
+                  type="number" min="0" step="0.5"
+                  value={minutes(step.durationMs)}
+                  onChange={(e) => handleUpdateStep(i, { durationMs: fromMinutes(e.target.value) })}
+                  className={inputClass}
+                />
+              </label>
+              <label className="flex-1 text-[10px] font-bold text-slate-400 space-y-1">
+                {t.program.floor}
+                <input
+                  type="number" min="0" max="100" step="5"
+                  value={percent(step.floor)}
+                  onChange={(e) => {
+                    const floor = fromPercent(e.target.value);
+                    handleUpdateStep(i, { floor, ceiling: Math.max(step.ceiling, floor) });
+                  }}
+                  className={inputClass}
+                />
+              </label>
+              <label className="flex-1 text-[10px] font-bold text-slate-400 space-y-1">
+                {t.program.ceiling}
+                <input
+                  type="number" min="0" max="100" step="5"
+                  value={percent(step.ceiling)}
+                  onChange={(e) => {
+                    const ceiling = fromPercent(e.target.value);
+                    handleUpdateStep(i, { ceiling, floor: Math.min(step.floor, ceiling) });
+                  }}
+                  className={inputClass}
+                />
+              </label>
+              <button
+                  onClick={() => handleRemoveStep(i)}
+                  aria-label={t.common.delete}
+                  className="w-8 h-9 text-slate-300 flex items-center justify-center shrink-0 active:scale-95 transition"
+              >
+                  <X size={16} />
+              </button>
+            </div>
+          ))}
+          <button
+              onClick={handleAddStep}
+              className="w-full py-2 bg-slate-100 text-slate-600 rounded-xl text-xs font-bold active:scale-95 transition flex items-center justify-center gap-1"
+          >
+              <Plus size={14} /> {t.program.addStep}
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <label className="text-xs font-bold text-slate-400 space-y-1">
+            {t.program.cooldown}
+            <input
+              type="number" min="0" step="0.5"
+              value={minutes(draft.cooldownMs)}
+              onChange={(e) => setDraft(d => ({ ...d, cooldownMs: fromMinutes(e.target.value) }))}
+              className={inputClass}
+            />
+          </label>
+          <label className="text-xs font-bold text-slate-400 space-y-1">
+            {t.program.fadeOut}
+            <input
+              type="number" min="0" step="1"
+              value={draft.fadeOutMs / 1000}
+              onChange={(e) => setDraft(d => ({ ...d, fadeOutMs: Math.max(Number(e.target.value) || 0, 0) * 1000 }))}
+              className={inputClass}
+            />
+          </label>
+        </div>
+
+        <div className="flex gap-3">
+          {isSaved && (
+            <button
+                onClick={handleDelete}
+                aria-label={t.common.delete}
+                className="w-12 py-3 bg-slate-100 text-slate-400 rounded-2xl flex items-center justify-center active:scale-95 transition"
+            >
+                <Trash2 size={18} />
+            </button>
+          )}
+          <button
+              onClick={onClose}
+              className="flex-1 py-3 bg-slate-100 text-slate-500 rounded-2xl font-bold text-sm active:scale-95 transition"
+          >
+              {t.common.cancel}
+          </button>
+          <button
+              onClick={handleSave}
+              disabled={programDurationMs(draft) === 0}
+              className="flex-1 py-3 bg-pink-300 text-slate-900 rounded-2xl font-bold text-sm active:scale-95 transition flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+              <Check size={18} /> {t.common.save}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
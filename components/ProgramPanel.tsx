@@ -0,0 +1,90 @@
+import { Pencil, Plus, Timer } from 'lucide-react';
+import type { SessionProgram } from '../types';
+import { createProgram, programDurationMs, programProgress } from '../engine/programs';
+import { createId } from '../engine/storage';
+import { selectActiveProgram } from '../store';
+import { useAppState, useMessages, useServices } from './AppContext';
+import { formatDuration } from './format';
+
+// --- Session Program Picker ---
+// The program the master switch starts, and how far the running one has got.
+// The editor dialog is opened by the main view, outside the dashboard card.
+
+export const ProgramPanel = ({ onEdit }: { onEdit: (program: SessionProgram) => void }) => {
+  const { store } = useServices();
+  const programs = useAppState(state => state.programs);
+  const activeProgram = useAppState(selectActiveProgram);
+  const activeProgramId = useAppState(state => state.settings.activeProgramId);
+  const masterSwitch = useAppState(state => state.masterSwitch);
+  const programElapsedMs = useAppState(state => state.meters.programElapsedMs);
+  const t = useMessages();
+
+  // Where the running program is; null while no program runs
+  const programRun = activeProgram && programElapsedMs !== null
+    ? { ...programProgress(activeProgram, programElapsedMs), fraction: programElapsedMs / programDurationMs(activeProgram) }
+    : null;
+
+  return (
+    <>
+      {/* Session Program */}
+      <div className="space-y-3 relative z-10">
+         <div className="flex justify-between text-sm font-bold text-slate-500">
+           <span className="flex items-center gap-2"><Timer size={18} className="text-pink-300"/> {t.main.program}</span>
+           <div className="flex items-center gap-2">
+             {activeProgram && (
+               <button 
+                   onClick={() => onEdit(activeProgram)}
+                   disabled={masterSwitch}
+                   aria-label={t.main.editProgram}
+                   className="flex items-center bg-purple-100 text-purple-700 px-1.5 py-0.5 rounded-md text-xs active:scale-95 transition disabled:opacity-50"
+               >
+                   <Pencil size={12} />
+               </button>
+             )}
+             <button 
+                 onClick={() => onEdit(createProgram(createId('program'), t.program.created(programs.length + 1)))}
+                 disabled={masterSwitch}
+                 aria-label={t.main.newProgram}
+                 className="flex items-center bg-purple-100 text-purple-700 px-1.5 py-0.5 rounded-md text-xs active:scale-95 transition disabled:opacity-50"
+             >
+                 <Plus size={12} />
+             </button>
+           </div>
+         </div>
+         {activeProgram && programRun ? (
+           <div className="space-y-1">
+             <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+               <div 
+                   className="h-full bg-pink-300 transition-all duration-1000 ease-linear"
+                   style={{ width: `${Math.min(programRun.fraction, 1) * 100}%` }}
+               />
+             </div>
+             <div className="flex justify-between text-[10px] font-bold text-slate-400">
+               <span>
+                 {activeProgram.name} · {programRun.phase === 'step'
+                   ? t.program.step(programRun.stepIndex + 1, activeProgram.steps.length)
+                   : t.program.cooldownPhase}
+               </span>
+               <span>{t.program.remaining(formatDuration(programRun.remainingMs))}</span>
+             </div>
+           </div>
+         ) : (
+           <div className="flex bg-slate-100 rounded-xl p-1 overflow-x-auto">
+             {[null, ...programs].map(program => (
+               <button 
+                   key={program?.id ?? 'none'}
+                   onClick={() => store.dispatch({ type: 'settingsChanged', patch: { activeProgramId: program?.id ?? null } })}
+                   disabled={masterSwitch}
+                   className={`flex-1 min-w-fit px-2 py-1.5 rounded-lg text-xs font-bold transition whitespace-nowrap ${
+                       (program?.id ?? null) === activeProgramId ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-400'
+                   }`}
+               >
+                   {program ? `${program.name} · ${formatDuration(programDurationMs(program))}` : t.main.noProgram}
+               </button>
+             ))}
+           </div>
+         )}
+      </div>
+    </>
+  );
+};
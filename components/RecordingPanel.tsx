@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import { ChartColumnBig, CircleDot, Download, FileUp, Square } from 'lucide-react';
+import { parseRecording, recordingFileName } from '../engine/recorder';
+import type { SessionRecording } from '../engine/recorder';
+import { downloadBlob } from '../engine/schemePackage';
+import { useAppState, useMessages, useServices } from './AppContext';
+import { formatDuration } from './format';
+import { ReplayDialog } from './ReplayDialog';
+import { StatsDialog } from './StatsDialog';
+
+// --- Session Recording ---
+// Record, export and replay sessions, and the stats over the session history.
+
+export const RecordingPanel = () => {
+  const { session, notifications } = useServices();
+  const masterSwitch = useAppState(state => state.masterSwitch);
+  const liveReplay = useAppState(state => state.liveReplay);
+  const isRecording = useAppState(state => state.isRecording);
+  const lastRecording = useAppState(state => state.lastRecording);
+  const t = useMessages();
+  const [showStats, setShowStats] = useState(false);
+  // Recording loaded for replay / comparison
+  const [replayRecording, setReplayRecording] = useState<SessionRecording | null>(null);
+
+  const handleExportRecording = (recording: SessionRecording) => {
+    const blob = new Blob([JSON.stringify(recording)], { type: 'application/json' });
+    downloadBlob(blob, recordingFileName(recording));
+  };
+
+  const handleLoadRecording = async (files: FileList | null) => {
+    const file = files?.[0];
+    if (!file) return;
+    try {
+      setReplayRecording(parseRecording(JSON.parse(await file.text())));
+    } catch (error) {
+      console.error("Recording rejected:", error);
+      notifications.showToast('error', t.toasts.recordingFailed);
+    }
+  };
+
+  return (
+    <>
+      {/* Session Recording */}
+      <div className="bg-white rounded-[2rem] p-5 shadow-sm shadow-purple-100 space-y-3">
+          <div className="flex items-center justify-between">
+              <span className="flex items-center gap-2 text-sm font-bold text-slate-500">
+                  <CircleDot size={18} className={isRecording ? 'text-red-400 animate-pulse' : 'text-pink-300'}/> {t.recording.title}
+              </span>
+              <div className="flex items-center gap-2">
+                  {liveReplay && (
+                      <span className="bg-purple-100 text-purple-700 px-2 py-0.5 rounded-md text-xs font-bold">
+                          {t.recording.replaying}{liveReplay.muted && ` · ${t.recording.muted}`}
+                      </span>
+                  )}
+                  <button 
+                      onClick={() => setShowStats(true)}
+                      className="flex items-center gap-1 bg-purple-100 text-purple-700 px-2 py-0.5 rounded-md text-xs font-bold active:scale-95 transition"
+                  >
+                      <ChartColumnBig size={12} /> {t.recording.stats}
+                  </button>
+              </div>
+          </div>
+          <div className="flex gap-2">
+              <button 
+                  onClick={isRecording ? session.stopRecording : session.startRecording}
+                  disabled={!masterSwitch && !isRecording}
+                  className="flex-1 py-2.5 bg-pink-300 text-slate-900 rounded-xl text-xs font-bold active:scale-95 transition flex items-center justify-center gap-1 disabled:opacity-50"
+              >
+                  {isRecording ? <><Square size={14} /> {t.recording.stop}</> : <><CircleDot size={14} /> {t.recording.start}</>}
+              </button>
+              <button 
+                  onClick={() => lastRecording && handleExportRecording(lastRecording)}
+                  disabled={!lastRecording}
+                  className="flex-1 py-2.5 bg-slate-100 text-slate-600 rounded-xl text-xs font-bold active:scale-95 transition flex items-center justify-center gap-1 disabled:opacity-50"
+              >
+                  <Download size={14} /> {t.common.export}
+              </button>
+              <label className="flex-1 py-2.5 bg-slate-100 text-slate-600 rounded-xl text-xs font-bold active:scale-95 transition flex items-center justify-center gap-1 cursor-pointer">
+                  <input 
+                      type="file" 
+                      accept=".json,application/json"
+                      className="hidden"
+                      onChange={(e) => {
+                          handleLoadRecording(e.target.files);
+                          e.target.value = '';
+                      }}
+                  />
+                  <FileUp size={14} /> {t.recording.replay}
+              </label>
+          </div>
+          {lastRecording && !isRecording && (
+              <div className="text-[10px] font-mono text-slate-400">
+                  {t.recording.last(formatDuration(lastRecording.durationMs), lastRecording.decisions.length, lastRecording.clips.length)}
+              </div>
+          )}
+      </div>
+
+      {replayRecording && <ReplayDialog recording={replayRecording} onClose={() => setReplayRecording(null)} />}
+      {showStats && <StatsDialog onClose={() => setShowStats(false)} />}
+    </>
+  );
+};
@@ -0,0 +1,161 @@
+import { Activity, Link2, Power, Smartphone, Speaker, Unlink, Volume2 } from 'lucide-react';
+import { defaultRelayUrl, normalizeRoomCode } from '../engine/remote';
+import { useAppState, useFormatter, useMessages, useServices } from './AppContext';
+
+// --- Remote Pairing Panel ---
+// Unpaired: relay, pairing code and the role to take. Paired as controller: the player's
+// state with remote controls for it. Paired as player: just the connection state.
+
+export const RemotePanel = () => {
+  const { store, remote: pairing } = useServices();
+  const remote = useAppState(state => state.remote);
+  const relayUrl = useAppState(state => state.settings.relayUrl);
+  const roomCode = useAppState(state => state.settings.roomCode);
+  const t = useMessages();
+  const fmt = useFormatter();
+  const inputClass = "w-full px-3 py-2 bg-slate-50 border-0 rounded-xl focus:ring-2 focus:ring-pink-200 focus:bg-white outline-none transition text-slate-800 text-sm font-medium disabled:opacity-50";
+
+  const player = remote?.role === 'controller' && remote.status === 'connected' ? remote.player : null;
+
+  return (
+    <div className="bg-white rounded-[2rem] p-5 shadow-sm shadow-purple-100 space-y-3">
+        <div className="flex items-center justify-between">
+            <span className="flex items-center gap-2 text-sm font-bold text-slate-500">
+                <Link2 size={18} className="text-pink-300"/> {t.remote.title}
+            </span>
+            {remote && (
+                <span className={`px-2 py-0.5 rounded-md text-xs font-bold ${
+                    remote.status === 'connected' ? 'bg-purple-100 text-purple-700' : 'bg-slate-100 text-slate-400'
+                }`}>
+                    {t.remote.status[remote.status]}
+                </span>
+            )}
+        </div>
+
+        {!remote ? (
+          <>
+            <div className="text-[10px] font-medium text-slate-400">{t.remote.hint}</div>
+            <div className="grid grid-cols-3 gap-2">
+                <label className="col-span-2 text-[10px] font-bold text-slate-400 space-y-1">
+                    {t.remote.relayUrl}
+                    <input
+                        type="url"
+                        value={relayUrl}
+                        placeholder={defaultRelayUrl()}
+                        onChange={(e) => store.dispatch({ type: 'settingsChanged', patch: { relayUrl: e.target.value } })}
+                        className={inputClass}
+                    />
+                </label>
+                <label className="text-[10px] font-bold text-slate-400 space-y-1">
+                    {t.remote.roomCode}
+                    <input
+                        type="text"
+                        value={roomCode}
+                        onChange={(e) => store.dispatch({ type: 'settingsChanged', patch: { roomCode: normalizeRoomCode(e.target.value) } })}
+                        className={`${inputClass} font-mono tracking-widest`}
+                    />
+                </label>
+            </div>
+            <div className="flex gap-2">
+                <button
+                    onClick={() => pairing.pair('controller')}
+                    disabled={!roomCode}
+                    className="flex-1 py-2.5 bg-pink-300 text-slate-900 rounded-xl text-xs font-bold active:scale-95 transition flex items-center justify-center gap-1 disabled:opacity-50"
+                >
+                    <Smartphone size={14} /> {t.remote.controller}
+                </button>
+                <button
+                    onClick={() => pairing.pair('player')}
+                    disabled={!roomCode}
+                    className="flex-1 py-2.5 bg-slate-100 text-slate-600 rounded-xl text-xs font-bold active:scale-95 transition flex items-center justify-center gap-1 disabled:opacity-50"
+                >
+                    <Speaker size={14} /> {t.remote.player}
+                </button>
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="flex items-center justify-between gap-2">
+                <span className="text-[10px] font-medium text-slate-400">
+                    {remote.role === 'controller' ? t.remote.controllerActive : t.remote.playerActive}
+                    {' · '}<span className="font-mono tracking-widest">{roomCode}</span>
+                </span>
+                <button
+                    onClick={pairing.unpair}
+                    className="flex items-center gap-1 bg-slate-100 text-slate-500 px-3 py-1.5 rounded-lg text-xs font-bold active:scale-95 transition shrink-0"
+                >
+                    <Unlink size={12} /> {t.remote.disconnect}
+                </button>
+            </div>
+
+            {remote.role === 'controller' && remote.status === 'connected' && !player && (
+                <div className="text-[10px] font-medium text-slate-300">{t.remote.noReport}</div>
+            )}
+
+            {player && (
+              <div className="space-y-3 bg-[#F9F8FC] rounded-2xl p-3">
+                  <div className="flex items-center gap-3">
+                      <button
+                          onClick={() => pairing.command({ kind: 'power', on: !player.masterSwitch })}
+                          className={`py-2 px-3 rounded-xl text-xs font-bold active:scale-95 transition flex items-center gap-1 shrink-0 ${
+                              player.masterSwitch ? 'bg-pink-300 text-slate-900' : 'bg-slate-200 text-slate-600'
+                          }`}
+                      >
+                          <Power size={14} /> {player.masterSwitch ? t.remote.stopPlayer : t.remote.startPlayer}
+                      </button>
+                      <div className="flex-1 h-2 bg-slate-200 rounded-full overflow-hidden">
+                          <div
+                              className="h-full bg-pink-300 transition-all duration-500"
+                              style={{ width: `${Math.min(player.pleasure / player.maxPleasure, 1) * 100}%` }}
+                          />
+                      </div>
+                      <span className="text-xs font-black text-slate-700 w-8 text-right">{player.pleasure}</span>
+                  </div>
+
+                  <div className="space-y-1">
+                      <div className="text-[10px] font-bold text-slate-400">{t.remote.scheme}</div>
+                      <div className="flex flex-wrap gap-2">
+                        {player.schemes.map(scheme => (
+                          <button
+                              key={scheme.id}
+                              onClick={() => pairing.command({ kind: 'scheme', id: scheme.id })}
+                              className={`px-3 py-1.5 rounded-lg text-xs font-bold transition ${
+                                  player.activeSchemeId === scheme.id ? 'bg-pink-300 text-slate-900' : 'bg-white text-slate-500'
+                              }`}
+                          >
+                              {scheme.name}
+                          </button>
+                        ))}
+                      </div>
+                  </div>
+
+                  <div className="flex items-center gap-3 text-xs font-bold text-slate-400">
+                      <Volume2 size={14} className="text-pink-300 shrink-0"/>
+                      <input
+                          type="range"
+                          min="0" max="1" step="0.01"
+                          value={player.globalVolume}
+                          onChange={(e) => pairing.command({ kind: 'volume', value: parseFloat(e.target.value) })}
+                          className="material-slider"
+                          style={{ backgroundSize: `${player.globalVolume*100}% 100%` }}
+                      />
+                      <span className="w-10 text-right text-slate-500 shrink-0">{fmt.percent(player.globalVolume)}</span>
+                  </div>
+                  <div className="flex items-center gap-3 text-xs font-bold text-slate-400">
+                      <Activity size={14} className="text-pink-300 shrink-0"/>
+                      <input
+                          type="range"
+                          min="1" max="5" step="1"
+                          value={player.sensitivity}
+                          onChange={(e) => pairing.command({ kind: 'sensitivity', value: parseInt(e.target.value) })}
+                          className="material-slider"
+                      />
+                      <span className="w-10 text-right text-slate-500 shrink-0">LV.{player.sensitivity}</span>
+                  </div>
+              </div>
+            )}
+          </>
+        )}
+    </div>
+  );
+};
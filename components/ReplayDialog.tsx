@@ -0,0 +1,63 @@
+import { Play } from 'lucide-react';
+import type { SessionRecording } from '../engine/recorder';
+import { replaySession } from '../engine/replay';
+import { summarizeSession } from '../engine/sessionStats';
+import { selectActiveScheme } from '../store';
+import { useAppState, useFormatter, useMessages, useServices } from './AppContext';
+import { SummaryTable } from './SessionViews';
+
+// --- Recording Replay ---
+// What the recording did against what the active scheme would do with the same motion
+
+export const ReplayDialog = ({ recording, onClose }: { recording: SessionRecording; onClose: () => void }) => {
+  const { session } = useServices();
+  const activeScheme = useAppState(selectActiveScheme);
+  const t = useMessages();
+  const fmt = useFormatter();
+
+  const handleStartLiveReplay = (muted: boolean) => {
+    session.startLiveReplay(recording, muted);
+    onClose();
+  };
+
+  const recorded = summarizeSession(recording);
+  const replayed = replaySession(recording, activeScheme).summary;
+  return (
+    <div className="fixed inset-0 z-30 bg-slate-900/40 backdrop-blur-sm flex items-end sm:items-center justify-center p-4">
+      <div className="bg-white w-full max-w-md rounded-[2rem] p-6 shadow-xl space-y-5">
+        <div>
+          <h2 className="text-xl font-bold text-slate-800">{t.replay.title}</h2>
+          <div className="text-xs text-slate-400 mt-1">
+            {recording.scheme.name} · {fmt.dateTime(recording.startedAt)} · {t.motionSources[recording.motionSourceId]}
+          </div>
+        </div>
+
+        <SummaryTable t={t} fmt={fmt} columns={[
+          { label: t.replay.recorded, summary: recorded },
+          { label: t.replay.current(activeScheme.name), summary: replayed },
+        ]} />
+
+        <div className="grid grid-cols-2 gap-3">
+          <button 
+              onClick={() => handleStartLiveReplay(true)}
+              className="py-3 bg-slate-100 text-slate-600 rounded-2xl font-bold text-sm active:scale-95 transition"
+          >
+              {t.replay.muted}
+          </button>
+          <button 
+              onClick={() => handleStartLiveReplay(false)}
+              className="py-3 bg-pink-300 text-slate-900 rounded-2xl font-bold text-sm active:scale-95 transition flex items-center justify-center gap-2"
+          >
+              <Play size={18} /> {t.replay.audible}
+          </button>
+        </div>
+        <button 
+            onClick={onClose}
+            className="w-full py-3 bg-slate-100 text-slate-500 rounded-2xl font-bold text-sm active:scale-95 transition"
+        >
+            {t.common.close}
+        </button>
+      </div>
+    </div>
+  );
+};
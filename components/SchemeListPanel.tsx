@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { Copy, FileUp, Plus, Settings, Trash2 } from 'lucide-react';
+import { PACKAGE_EXTENSION } from '../engine/schemePackage';
+import type { SchemePackagePreview } from '../engine/schemePackage';
+import { useAppState, useMessages, useServices } from './AppContext';
+import { PackageImportDialog } from './PackageImportDialog';
+
+// --- Scheme List ---
+// Pick the active scheme; create, import, duplicate, edit and delete schemes.
+
+export const SchemeListPanel = () => {
+  const { store, schemes: schemeActions } = useServices();
+  const schemes = useAppState(state => state.schemes);
+  const activeSchemeId = useAppState(state => state.activeSchemeId);
+  const t = useMessages();
+  // Scheme package waiting for confirmation in the import preview
+  const [packageImport, setPackageImport] = useState<SchemePackagePreview | null>(null);
+
+  const handleSelectPackage = async (files: FileList | null) => {
+    const file = files?.[0];
+    if (!file) return;
+    const preview = await schemeActions.readPackage(file);
+    if (preview) setPackageImport(preview);
+  };
+
+  return (
+    <>
+      {/* Schemes Section */}
+      <div>
+          <div className="flex items-center justify-between mb-4 px-2">
+              <h2 className="text-xl font-bold text-slate-800">{t.main.schemes}</h2>
+              <div className="flex gap-2">
+                  <label className="flex items-center gap-1 bg-white text-slate-800 px-4 py-2 rounded-xl text-sm font-bold active:scale-95 transition shadow-sm cursor-pointer">
+                      <input 
+                          type="file" 
+                          accept={`${PACKAGE_EXTENSION},.zip,application/zip`}
+                          className="hidden"
+                          onChange={(e) => {
+                              handleSelectPackage(e.target.files);
+                              e.target.value = '';
+                          }}
+                      />
+                      <FileUp size={16} /> {t.common.import}
+                  </label>
+                  <button 
+                      onClick={schemeActions.create}
+                      className="flex items-center gap-1 bg-white text-slate-800 px-4 py-2 rounded-xl text-sm font-bold active:scale-95 transition shadow-sm"
+                  >
+                      <Plus size={16} /> {t.main.addScheme}
+                  </button>
+              </div>
+          </div>
+
+          <div className="space-y-3 pb-8">
+              {schemes.map(scheme => (
+                  <div 
+                      key={scheme.id} 
+                      className={`p-4 pl-5 rounded-[1.5rem] flex items-center justify-between transition-all ${
+                          activeSchemeId === scheme.id 
+                          ? 'bg-pink-300 text-slate-900 shadow-lg shadow-pink-200 scale-[1.02]' 
+                          : 'bg-white text-slate-500 hover:bg-white/80'
+                      }`}
+                  >
+                      <div 
+                          className="flex-1 cursor-pointer" 
+                          onClick={() => store.dispatch({ type: 'schemeActivated', id: scheme.id })}
+                      >
+                          <div className="font-bold text-lg">{scheme.name}</div>
+                          <div className={`text-xs mt-0.5 font-medium ${activeSchemeId === scheme.id ? 'text-slate-800/70' : 'text-slate-400'}`}>
+                              {activeSchemeId === scheme.id ? t.main.activeScheme : t.main.activateScheme}
+                          </div>
+                      </div>
+
+                      <div className="flex items-center gap-2">
+                          <button 
+                              onClick={() => schemeActions.duplicate(scheme)}
+                              className={`w-10 h-10 rounded-full flex items-center justify-center transition ${
+                                  activeSchemeId === scheme.id ? 'bg-white/30 text-slate-900' : 'bg-slate-100 text-slate-500'
+                              }`}
+                          >
+                              <Copy size={18} />
+                          </button>
+                          <button 
+                              onClick={() => schemeActions.edit(scheme)}
+                              className={`w-10 h-10 rounded-full flex items-center justify-center transition ${
+                                  activeSchemeId === scheme.id ? 'bg-white/30 text-slate-900' : 'bg-slate-100 text-slate-500'
+                              }`}
+                          >
+                              <Settings size={18} />
+                          </button>
+                          <button 
+                              onClick={() => schemeActions.remove(scheme.id)}
+                              className={`w-10 h-10 rounded-full flex items-center justify-center transition ${
+                                  activeSchemeId === scheme.id ? 'bg-white/30 text-slate-900' : 'bg-slate-100 text-slate-500'
+                              }`}
+                          >
+                              <Trash2 size={18} />
+                          </button>
+                      </div>
+                  </div>
+              ))}
+          </div>
+      </div>
+
+      {packageImport && <PackageImportDialog preview={packageImport} onClose={() => setPackageImport(null)} />}
+    </>
+  );
+};
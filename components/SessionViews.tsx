@@ -0,0 +1,107 @@
+import type { LevelId } from '../types';
+import { LEVEL_IDS } from '../types';
+import { maxPleasure } from '../engine/rules';
+import type { SessionSummary } from '../engine/sessionStats';
+import type { SessionLog } from '../engine/storage';
+import type { Formatter, Messages } from '../i18n';
+import { formatDuration } from './format';
+
+// --- Session Views ---
+
+const summaryRows = (t: Messages, fmt: Formatter): { label: string; value: (summary: SessionSummary) => string }[] => [
+  { label: t.stats.duration, value: s => formatDuration(s.durationMs) },
+  ...LEVEL_IDS.map(level => ({
+    label: t.stats.levelClips(level),
+    value: (s: SessionSummary) => fmt.number(s.clipsPerLevel[level]),
+  })),
+  { label: t.stats.bursts, value: s => fmt.number(s.bursts) },
+  { label: t.stats.averagePleasure, value: s => fmt.number(s.averagePleasure, 1) },
+  { label: t.stats.peakPleasure, value: s => fmt.number(s.peakPleasure) },
+];
+
+const LEVEL_COLORS: Record<LevelId, string> = {
+  1: '#FBCFE8',
+  2: '#F9A8D4',
+  3: '#F472B6',
+  4: '#DB2777',
+  5: '#A855F7',
+};
+
+export type SessionView = Pick<SessionLog, 'durationMs' | 'heartbeats' | 'decisions' | 'clips' | 'scheme'>;
+
+// Pleasure and intensity as lines, the playing level as a colored strip underneath
+export const SessionTimeline = ({ session, t }: { session: SessionView; t: Messages }) => {
+  const width = 300;
+  const chartHeight = 100;
+  const duration = Math.max(session.durationMs, 1);
+  const x = (t: number) => (Math.min(t, duration) / duration) * width;
+  const points = (value: (h: SessionView['heartbeats'][number]) => number) =>
+    session.heartbeats.map(h => `${x(h.t).toFixed(1)},${(chartHeight - value(h) * chartHeight).toFixed(1)}`).join(' ');
+  const max = maxPleasure(session.scheme.rules);
+  const played = session.decisions.filter(d => d.level !== null);
+
+  return (
+    <div className="space-y-2">
+      <svg viewBox={`0 0 ${width} ${chartHeight + 16}`} className="w-full bg-[#F9F8FC] rounded-2xl" preserveAspectRatio="none">
+        <polyline points={points(h => h.intensity / 2)} fill="none" stroke="#C4B5FD" strokeWidth="1.5" />
+        <polyline points={points(h => Math.min(h.pleasure / max, 1))} fill="none" stroke="#EC4899" strokeWidth="2" />
+        {played.map((d, i) => {
+          const end = played[i + 1]?.t ?? session.durationMs;
+          return (
+            <rect 
+                key={i} 
+                x={x(d.t)} y={chartHeight + 4} 
+                width={Math.max(x(end) - x(d.t), 1)} height={10} 
+                fill={LEVEL_COLORS[d.level!]} 
+            />
+          );
+        })}
+      </svg>
+      <div className="flex flex-wrap gap-x-3 gap-y-1 text-[10px] font-bold text-slate-400">
+        <span className="flex items-center gap-1"><span className="w-3 h-0.5 bg-pink-500" /> {t.main.pleasure}</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-0.5 bg-violet-300" /> {t.stats.intensity}</span>
+        {LEVEL_IDS.map(level => (
+          <span key={level} className="flex items-center gap-1">
+            <span className="w-2 h-2 rounded-sm" style={{ background: LEVEL_COLORS[level] }} /> LV.{level}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// Values that differ from the first column are highlighted
+export const SummaryTable = ({ columns, t, fmt }: {
+  columns: { label: string; summary: SessionSummary }[];
+  t: Messages;
+  fmt: Formatter;
+}) => (
+  <table className="w-full text-xs">
+    <thead>
+      <tr className="text-slate-400 font-bold">
+        <th className="text-left py-1"></th>
+        {columns.map((column, i) => (
+          <th key={i} className="text-right py-1 truncate max-w-[8rem]">{column.label}</th>
+        ))}
+      </tr>
+    </thead>
+    <tbody className="font-mono">
+      {summaryRows(t, fmt).map(row => {
+        const baseline = row.value(columns[0].summary);
+        return (
+          <tr key={row.label} className="border-t border-slate-100">
+            <td className="py-1.5 font-sans font-bold text-slate-500">{row.label}</td>
+            {columns.map((column, i) => {
+              const value = row.value(column.summary);
+              return (
+                <td key={i} className={`py-1.5 text-right ${i > 0 && value !== baseline ? 'text-pink-500 font-bold' : 'text-slate-600'}`}>
+                  {value}
+                </td>
+              );
+            })}
+          </tr>
+        );
+      })}
+    </tbody>
+  </table>
+);
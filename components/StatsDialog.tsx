@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import { countClipPlays, summarizeSession } from '../engine/sessionStats';
+import { useAppState, useFormatter, useMessages, useServices } from './AppContext';
+import { describeSession, formatDuration } from './format';
+import { SessionTimeline, SummaryTable } from './SessionViews';
+import type { SessionView } from './SessionViews';
+
+// --- Session Statistics ---
+
+export const StatsDialog = ({ onClose }: { onClose: () => void }) => {
+  const { store, session, notifications } = useServices();
+  const masterSwitch = useAppState(state => state.masterSwitch);
+  const sessionLogs = useAppState(state => state.sessionLogs);
+  useAppState(state => state.meters); // Re-rendered with every heartbeat, so the live session keeps growing
+  const t = useMessages();
+  const fmt = useFormatter();
+  // 'live' is the running session
+  const [statsView, setStatsView] = useState<{ selectedId: string; compareId: string | null }>(() => {
+    const { masterSwitch, sessionLogs } = store.getState();
+    return { selectedId: masterSwitch ? 'live' : sessionLogs[0]?.id ?? 'live', compareId: null };
+  });
+
+  const handleDeleteSessionLog = (id: string) => {
+    notifications.confirm({
+      message: t.dialogs.deleteSession,
+      confirmLabel: t.common.delete,
+      onConfirm: () => {
+        session.deleteSessionLog(id);
+        onClose();
+      },
+    });
+  };
+
+  const live = masterSwitch ? session.liveSession() : undefined;
+  const findSession = (id: string | null): SessionView | undefined =>
+    id === 'live' ? live : sessionLogs.find(log => log.id === id);
+  const selected = findSession(statsView.selectedId);
+  const compared = findSession(statsView.compareId);
+  const selectClass = "w-full px-3 py-2 bg-slate-50 border-0 rounded-xl focus:ring-2 focus:ring-pink-200 outline-none text-slate-800 text-xs font-medium";
+  const sessionOptions = (
+    <>
+      {live && <option value="live">{t.stats.live(formatDuration(live.durationMs))}</option>}
+      {sessionLogs.map(log => <option key={log.id} value={log.id}>{describeSession(log, fmt)}</option>)}
+    </>
+  );
+  return (
+    <div className="fixed inset-0 z-30 bg-slate-900/40 backdrop-blur-sm flex items-end sm:items-center justify-center p-4">
+      <div className="bg-white w-full max-w-md rounded-[2rem] p-6 shadow-xl max-h-[85vh] flex flex-col">
+        <h2 className="text-xl font-bold text-slate-800 mb-4">{t.stats.title}</h2>
+
+        {!selected ? (
+          <div className="bg-[#F9F8FC] rounded-3xl p-6 text-center text-sm text-slate-400">{t.stats.empty}</div>
+        ) : (
+          <div className="space-y-4 overflow-y-auto flex-1">
+            <select 
+                value={statsView.selectedId}
+                onChange={(e) => setStatsView({ ...statsView, selectedId: e.target.value })}
+                className={selectClass}
+            >
+                {sessionOptions}
+            </select>
+
+            <SessionTimeline session={selected} t={t} />
+
+            <label className="flex items-center gap-2 text-xs font-bold text-slate-400">
+              <span className="shrink-0">{t.stats.compare}</span>
+              <select 
+                  value={statsView.compareId ?? ''}
+                  onChange={(e) => setStatsView({ ...statsView, compareId: e.target.value || null })}
+                  className={selectClass}
+              >
+                  <option value="">{t.common.none}</option>
+                  {sessionOptions}
+              </select>
+            </label>
+
+            <SummaryTable t={t} fmt={fmt} columns={[
+              { label: selected.scheme.name, summary: summarizeSession(selected) },
+              ...(compared ? [{ label: compared.scheme.name, summary: summarizeSession(compared) }] : []),
+            ]} />
+
+            <div>
+              <div className="text-xs font-bold text-slate-400 mb-2">{t.stats.clips}</div>
+              {(() => {
+                const counts = countClipPlays(selected.clips);
+                return counts.length === 0 ? (
+                  <span className="text-slate-400 text-xs">{t.stats.noClips}</span>
+                ) : (
+                  <ul className="space-y-1">
+                    {counts.map(c => (
+                      <li key={c.fileId} className="text-xs text-slate-600 flex items-center gap-2">
+                        <span className="bg-purple-100 text-purple-600 text-[10px] px-1.5 rounded-full font-mono font-bold shrink-0">LV.{c.level}</span>
+                        <span className="truncate flex-1">{c.fileName}</span>
+                        <span className="font-mono text-slate-400 shrink-0">×{c.count}</span>
+                      </li>
+                    ))}
+                  </ul>
+                );
+              })()}
+            </div>
+          </div>
+        )}
+
+        <div className="flex gap-3 mt-5">
+          {selected && statsView.selectedId !== 'live' && (
+            <button 
+                onClick={() => handleDeleteSessionLog(statsView.selectedId)}
+                className="w-12 bg-slate-100 text-slate-500 rounded-2xl active:scale-95 transition flex items-center justify-center"
+            >
+                <Trash2 size={18} />
+            </button>
+          )}
+          <button 
+              onClick={onClose}
+              className="flex-1 py-3 bg-slate-100 text-slate-500 rounded-2xl font-bold text-sm active:scale-95 transition"
+          >
+              {t.common.close}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,18 @@
+import type { LevelId, SchemeRules } from '../types';
+import type { SessionLog } from '../engine/storage';
+import type { Formatter, Messages } from '../i18n';
+
+// --- Display Helpers ---
+
+export const describeLevel = (t: Messages, level: LevelId, rules: SchemeRules) =>
+  level === 5
+    ? `${t.levelNames[5]} (${t.levelBurst})`
+    : `${t.levelNames[level]} (${t.levelBand(String(rules.bands[level].min), String(rules.bands[level].max))})`;
+
+export const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+export const describeSession = (session: Pick<SessionLog, 'startedAt' | 'durationMs' | 'scheme'>, fmt: Formatter) =>
+  `${fmt.dateTime(session.startedAt)} · ${session.scheme.name} · ${formatDuration(session.durationMs)}`;
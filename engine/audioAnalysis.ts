@@ -0,0 +1,51 @@
+import type { AudioFile } from '../types';
+import { readSampleRate } from './audioHeaders';
+import { analyzeLoudness } from './loudness';
+
+// --- Audio File Analysis ---
+// Every clip is decoded once after import: that validates it, and yields its
+// metadata and loudness in one pass.
+
+export type AudioAnalysis = Pick<
+  AudioFile,
+  'durationMs' | 'sampleRate' | 'size' | 'loudness' | 'normalizationDb' | 'error'
+>;
+
+export const isAnalysed = (file: AudioFile) => file.durationMs !== undefined || file.error !== undefined;
+
+export const isPlayable = (file: AudioFile) => file.error === undefined;
+
+export const describeError = (error: unknown) =>
+  error instanceof Error ? `${error.name}: ${error.message}` : String(error);
+
+// Never rejects: undecodable files come back with `error` set.
+export const analyzeAudio = async (blob: Blob): Promise<AudioAnalysis> => {
+  let buffer: AudioBuffer;
+  let sampleRate: number | null;
+  try {
+    const data = await blob.arrayBuffer();
+    // Read first: decoding detaches the data, and its result is resampled to the decoder's rate
+    sampleRate = readSampleRate(data);
+    // Decoding happens offline, so no user gesture or running context is needed
+    const decoder = new OfflineAudioContext(1, 1, 44100);
+    buffer = await decoder.decodeAudioData(data);
+  } catch (error) {
+    return { size: blob.size, error: describeError(error) };
+  }
+  if (buffer.length === 0) {
+    return { size: blob.size, error: 'Decoded audio is empty' };
+  }
+
+  const metadata = {
+    size: blob.size,
+    durationMs: buffer.duration * 1000,
+    ...(sampleRate !== null && { sampleRate }),
+  };
+  try {
+    return { ...metadata, ...await analyzeLoudness(buffer) };
+  } catch (error) {
+    // Playable, just not measurable: leave it at its natural level
+    console.error("Loudness analysis failed:", error);
+    return { ...metadata, normalizationDb: 0 };
+  }
+};
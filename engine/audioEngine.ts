@@ -0,0 +1,346 @@
+import type { LevelId } from '../types';
+
+// --- Web Audio Playback Engine ---
+// Clips are decoded into AudioBuffers and scheduled on the AudioContext clock, so
+// the next clip starts exactly when the previous one ends. When the level changes,
+// the outgoing tail and the incoming head overlap by the configured crossfade.
+// Under the clips runs an optional looping ambient track on its own bus, ducked while a
+// clip plays and crossfaded along with the clips when the level changes.
+
+const LOOKAHEAD_MS = 1500; // How early to ask for the next clip before the current one ends
+const MAX_CACHED_BUFFERS = 32;
+const TEST_TONE_HZ = 660;
+const TEST_TONE_MS = 400;
+const DUCK_GAIN = 0.3; // Ambient level while a clip plays
+const DUCK_TIME_CONSTANT = 0.15; // Seconds
+const MIN_AMBIENT_FADE_MS = 500; // Ambient changes never cut, even without a crossfade
+
+export type AudioEngineHandlers = {
+  onNeedNext: () => void; // Current clip is about to end and nothing is queued
+  onIdle: () => void; // Last clip finished, nothing is playing
+};
+
+export type Ambient = {
+  url: string;
+  gain: number; // Linear, like a clip's
+};
+
+export type Clip = {
+  url: string;
+  level: LevelId;
+  gain: number; // Linear per-clip gain (normalization + trim)
+  ambient: Ambient | null; // Switched to when the clip starts; null keeps the current one
+};
+
+export type AudioEngine = {
+  unlock: () => void;
+  setVolume: (volume: number) => void;
+  setLayerVolumes: (foreground: number, background: number) => void; // Under the global volume
+  setHandlers: (handlers: AudioEngineHandlers) => void;
+  enqueue: (clip: Clip, crossfadeMs: number) => Promise<number | null>;
+  stop: (fadeMs: number) => void;
+  // Fades out the clips but keeps the ambient track, so the next enqueue starts right away
+  skip: (fadeMs: number) => void;
+  preview: (url: string, gain: number) => Promise<void>;
+  stopPreview: () => void;
+  // Short beep to confirm output works; false when audio is unsupported or still blocked
+  playTestTone: () => Promise<boolean>;
+};
+
+type AmbientVoice = {
+  source: AudioBufferSourceNode;
+  gain: GainNode;
+  url: string;
+};
+
+type Voice = {
+  source: AudioBufferSourceNode;
+  gain: GainNode;
+  level: LevelId;
+  peakGain: number;
+  endAt: number; // Context time
+};
+
+export const createAudioEngine = (): AudioEngine => {
+  let context: AudioContext | null = null;
+  let master: GainNode | null = null;
+  let foregroundBus: GainNode | null = null;
+  let backgroundBus: GainNode | null = null;
+  let duck: GainNode | null = null; // Between the ambient track and its bus
+  let volume = 1;
+  let layerVolumes = { foreground: 1, background: 1 };
+  let handlers: AudioEngineHandlers = { onNeedNext: () => {}, onIdle: () => {} };
+
+  const buffers = new Map<string, Promise<AudioBuffer>>();
+  const voices = new Set<Voice>();
+  let current: Voice | null = null; // Most recently scheduled voice
+  let needNextTimer: ReturnType<typeof setTimeout> | undefined;
+  let generation = 0; // Bumped by stop() and skip() to drop clips still being decoded
+  let previewSource: AudioBufferSourceNode | null = null;
+  let ambientVoice: AmbientVoice | null = null;
+  let ambientUrl: string | null = null; // Requested track, possibly still loading
+
+  // Must run inside a user gesture: iOS/Android keep audio blocked until then
+  const unlock = () => {
+    if (!context) {
+      const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+      if (!AudioContextClass) return;
+      context = new AudioContextClass() as AudioContext;
+      master = context.createGain();
+      master.gain.value = volume;
+      master.connect(context.destination);
+      foregroundBus = context.createGain();
+      foregroundBus.gain.value = layerVolumes.foreground;
+      foregroundBus.connect(master);
+      backgroundBus = context.createGain();
+      backgroundBus.gain.value = layerVolumes.background;
+      backgroundBus.connect(master);
+      duck = context.createGain();
+      duck.connect(backgroundBus);
+    }
+    if (context.state === 'suspended') {
+      context.resume();
+    }
+  };
+
+  const setVolume = (next: number) => {
+    volume = next;
+    if (context && master) {
+      master.gain.setTargetAtTime(next, context.currentTime, 0.02);
+    }
+  };
+
+  const setLayerVolumes = (foreground: number, background: number) => {
+    layerVolumes = { foreground, background };
+    if (context && foregroundBus && backgroundBus) {
+      foregroundBus.gain.setTargetAtTime(foreground, context.currentTime, 0.02);
+      backgroundBus.gain.setTargetAtTime(background, context.currentTime, 0.02);
+    }
+  };
+
+  const setDucked = (ducked: boolean, at: number) => {
+    duck?.gain.setTargetAtTime(ducked ? DUCK_GAIN : 1, at, DUCK_TIME_CONSTANT);
+  };
+
+  // --- Ambient ---
+
+  const fadeOutAmbient = (ctx: AudioContext, from: number, to: number) => {
+    const voice = ambientVoice;
+    if (!voice) return;
+    ambientVoice = null;
+    voice.gain.gain.cancelScheduledValues(from);
+    voice.gain.gain.setValueAtTime(voice.gain.gain.value, from);
+    voice.gain.gain.linearRampToValueAtTime(0, to);
+    voice.source.stop(to);
+  };
+
+  // Crossfades from the current track to `ambient`, starting at `startAt` (or as soon as it's loaded)
+  const switchAmbient = async (ctx: AudioContext, { url, gain: ambientGain }: Ambient, startAt: number, fadeMs: number) => {
+    if (url === ambientUrl || !duck) return;
+    ambientUrl = url;
+    let buffer: AudioBuffer;
+    try {
+      buffer = await loadBuffer(ctx, url);
+    } catch (error) {
+      if (ambientUrl === url) ambientUrl = ambientVoice?.url ?? null; // Tried again next time
+      throw error;
+    }
+    if (ambientUrl !== url) return; // Replaced or stopped meanwhile
+
+    const from = Math.max(startAt, ctx.currentTime);
+    const to = from + Math.max(fadeMs, MIN_AMBIENT_FADE_MS) / 1000;
+    fadeOutAmbient(ctx, from, to);
+
+    const source = ctx.createBufferSource();
+    const gain = ctx.createGain();
+    source.buffer = buffer;
+    source.loop = true;
+    gain.gain.setValueAtTime(0, from);
+    gain.gain.linearRampToValueAtTime(ambientGain, to);
+    source.connect(gain).connect(duck);
+    source.onended = () => {
+      source.disconnect();
+      gain.disconnect();
+    };
+    source.start(from);
+    ambientVoice = { source, gain, url };
+  };
+
+  const loadBuffer = (ctx: AudioContext, url: string): Promise<AudioBuffer> => {
+    const cached = buffers.get(url);
+    if (cached) {
+      // Refresh LRU position
+      buffers.delete(url);
+      buffers.set(url, cached);
+      return cached;
+    }
+    const pending = fetch(url)
+      .then(response => response.arrayBuffer())
+      .then(data => ctx.decodeAudioData(data));
+    // Only if it's still this attempt: a later load of the same URL may have replaced it
+    pending.catch(() => {
+      if (buffers.get(url) === pending) buffers.delete(url);
+    });
+    buffers.set(url, pending);
+    if (buffers.size > MAX_CACHED_BUFFERS) {
+      buffers.delete(buffers.keys().next().value!);
+    }
+    return pending;
+  };
+
+  const scheduleNeedNext = (ctx: AudioContext, voice: Voice, crossfadeMs: number) => {
+    clearTimeout(needNextTimer);
+    const delay = (voice.endAt - ctx.currentTime) * 1000 - LOOKAHEAD_MS - crossfadeMs;
+    needNextTimer = setTimeout(() => {
+      if (current === voice) handlers.onNeedNext();
+    }, Math.max(0, delay));
+  };
+
+  // Plays the clip right away, or right after the current one (gapless).
+  // Resolves with the clip duration in ms, or null when the engine isn't running or was
+  // stopped meanwhile. Rejects when the clip can't be loaded or decoded.
+  const enqueue = async ({ url, level, gain: clipGain, ambient }: Clip, crossfadeMs: number): Promise<number | null> => {
+    const ctx = context;
+    if (!ctx || !foregroundBus) return null;
+    const startGeneration = generation;
+
+    const buffer = await loadBuffer(ctx, url);
+    if (startGeneration !== generation) return null;
+
+    const now = ctx.currentTime;
+    const source = ctx.createBufferSource();
+    const gain = ctx.createGain();
+    source.buffer = buffer;
+    gain.gain.value = clipGain;
+    source.connect(gain).connect(foregroundBus);
+
+    let startAt = now;
+    const previous = current;
+    if (previous && previous.endAt > now) {
+      const fade = previous.level !== level
+        ? Math.min(crossfadeMs / 1000, buffer.duration / 2, previous.endAt - now)
+        : 0;
+      startAt = previous.endAt - fade;
+      if (fade > 0) {
+        previous.gain.gain.setValueAtTime(previous.peakGain, startAt);
+        previous.gain.gain.linearRampToValueAtTime(0, previous.endAt);
+        gain.gain.setValueAtTime(0, startAt);
+        gain.gain.linearRampToValueAtTime(clipGain, previous.endAt);
+      }
+    }
+
+    const voice: Voice = { source, gain, level, peakGain: clipGain, endAt: startAt + buffer.duration };
+    source.onended = () => {
+      voices.delete(voice);
+      source.disconnect();
+      gain.disconnect();
+      if (voice === current && startGeneration === generation) {
+        current = null;
+        setDucked(false, ctx.currentTime);
+        handlers.onIdle();
+      }
+    };
+    source.start(startAt);
+    voices.add(voice);
+    current = voice;
+    setDucked(true, startAt);
+    if (ambient) {
+      const fadeMs = previous?.level !== level ? crossfadeMs : 0;
+      switchAmbient(ctx, ambient, startAt, fadeMs).catch(error => console.error("Ambient track failed:", error));
+    }
+    scheduleNeedNext(ctx, voice, crossfadeMs);
+    return buffer.duration * 1000;
+  };
+
+  // Drops the queue and fades out every clip; returns the context time the fade ends at
+  const fadeOutClips = (fadeMs: number): number | null => {
+    generation++;
+    clearTimeout(needNextTimer);
+    current = null;
+    if (!context) return null;
+    const now = context.currentTime;
+    const end = now + fadeMs / 1000;
+    voices.forEach(({ source, gain }) => {
+      gain.gain.cancelScheduledValues(now);
+      gain.gain.setValueAtTime(gain.gain.value, now);
+      gain.gain.linearRampToValueAtTime(0, end);
+      source.stop(end);
+    });
+    return end;
+  };
+
+  const skip = (fadeMs: number) => {
+    fadeOutClips(fadeMs);
+  };
+
+  const stop = (fadeMs: number) => {
+    const end = fadeOutClips(fadeMs);
+    if (!context || end === null) return;
+    const now = context.currentTime;
+    ambientUrl = null;
+    fadeOutAmbient(context, now, end);
+    setDucked(false, end);
+  };
+
+  // Editor audition, independent of the playback queue
+  const stopPreview = () => {
+    previewSource?.stop();
+    previewSource = null;
+  };
+
+  const preview = async (url: string, gain: number) => {
+    unlock();
+    const ctx = context;
+    if (!ctx || !master) return;
+    stopPreview();
+    const buffer = await loadBuffer(ctx, url);
+    const source = ctx.createBufferSource();
+    const gainNode = ctx.createGain();
+    source.buffer = buffer;
+    gainNode.gain.value = gain;
+    source.connect(gainNode).connect(master);
+    source.onended = () => {
+      source.disconnect();
+      gainNode.disconnect();
+      if (previewSource === source) previewSource = null;
+    };
+    previewSource = source;
+    source.start();
+  };
+
+  const playTestTone = async () => {
+    unlock();
+    const ctx = context;
+    if (!ctx || !master) return false;
+    const isRunning = () => ctx.state === 'running';
+    if (!isRunning()) await ctx.resume().catch(() => {});
+    if (!isRunning()) return false;
+
+    const oscillator = ctx.createOscillator();
+    const gainNode = ctx.createGain();
+    oscillator.frequency.value = TEST_TONE_HZ;
+    gainNode.gain.setValueAtTime(0.2, ctx.currentTime);
+    gainNode.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + TEST_TONE_MS / 1000);
+    oscillator.connect(gainNode).connect(master);
+    oscillator.onended = () => {
+      oscillator.disconnect();
+      gainNode.disconnect();
+    };
+    oscillator.start();
+    oscillator.stop(ctx.currentTime + TEST_TONE_MS / 1000);
+    return true;
+  };
+
+  return {
+    unlock,
+    setVolume,
+    setLayerVolumes,
+    setHandlers: next => { handlers = next; },
+    enqueue,
+    stop,
+    skip,
+    preview,
+    stopPreview,
+    playTestTone,
+  };
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { readSampleRate } from './audioHeaders';
+
+const ascii = (text: string) => [...text].map(char => char.charCodeAt(0));
+const u32le = (value: number) => [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff, (value >>> 24) & 0xff];
+const u32be = (value: number) => u32le(value).reverse();
+const u16be = (value: number) => [(value >> 8) & 0xff, value & 0xff];
+const bytes = (...parts: number[][]) => new Uint8Array(parts.flat()).buffer;
+
+// Box with a 32-bit size
+const box = (type: string, ...content: number[][]) => {
+  const body = content.flat();
+  return [...u32be(8 + body.length), ...ascii(type), ...body];
+};
+
+describe('readSampleRate', () => {
+  it('reads the fmt chunk of a WAV file, past other chunks', () => {
+    const fmt = [...u16be(0x0100), ...u16be(0x0200), ...u32le(22050), ...new Array(8).fill(0)];
+    const wav = bytes(ascii('RIFF'), u32le(0), ascii('WAVE'), ascii('LIST'), u32le(3), [0, 0, 0, 0], ascii('fmt '), u32le(16), fmt);
+    expect(readSampleRate(wav)).toBe(22050);
+  });
+
+  it('reads FLAC STREAMINFO', () => {
+    // 96000 = 0x17700, packed into 20 bits from byte 18
+    const streamInfo = [...new Array(10).fill(0), 0x17, 0x70, 0x0f, ...new Array(21).fill(0)];
+    expect(readSampleRate(bytes(ascii('fLaC'), [0, 0, 0, 34], streamInfo))).toBe(96000);
+  });
+
+  it('reads the Vorbis identification header and reports 48 kHz for Opus', () => {
+    const page = (packet: number[]) => bytes(ascii('OggS'), new Array(22).fill(0), [1, packet.length], packet);
+    const vorbis = [1, ...ascii('vorbis'), ...u32le(0), 2, ...u32le(32000), ...new Array(8).fill(0)];
+    expect(readSampleRate(page(vorbis))).toBe(32000);
+    expect(readSampleRate(page([...ascii('OpusHead'), 1, 2, 0, 0, ...u32le(44100)]))).toBe(48000);
+  });
+
+  it('reads the first MP3 frame after an ID3 tag', () => {
+    const id3 = [...ascii('ID3'), 4, 0, 0, 0, 0, 0, 4, 0, 0, 0, 0];
+    expect(readSampleRate(bytes(id3, [0xff, 0xfb, 0x94, 0x00]))).toBe(48000); // MPEG-1 layer III
+    expect(readSampleRate(bytes([0xff, 0xf3, 0x84, 0x00]))).toBe(24000); // MPEG-2
+    expect(readSampleRate(bytes([0xff, 0xe3, 0x80, 0x00]))).toBe(11025); // MPEG-2.5
+  });
+
+  it('reads an ADTS AAC header', () => {
+    expect(readSampleRate(bytes([0xff, 0xf1, 0x50, 0x80, 0, 0, 0]))).toBe(44100);
+  });
+
+  it('reads the sound track of an MP4, skipping other tracks', () => {
+    const track = (handler: string, rate: number) => box('trak', box('mdia',
+      box('hdlr', [0, 0, 0, 0], [0, 0, 0, 0], ascii(handler), new Array(12).fill(0)),
+      box('minf', box('stbl', box('stsd', [0, 0, 0, 0], u32be(1),
+        box('mp4a', new Array(24).fill(0), u16be(rate), [0, 0]))))));
+    const mp4 = bytes(box('ftyp', ascii('M4A '), u32be(0)), box('moov', track('vide', 1920), track('soun', 44100)));
+    expect(readSampleRate(mp4)).toBe(44100);
+  });
+
+  it('returns null for unknown or truncated data', () => {
+    expect(readSampleRate(bytes(ascii('\u001aEß£'), new Array(32).fill(0)))).toBeNull(); // WebM
+    expect(readSampleRate(bytes(ascii('RIFF')))).toBeNull();
+    expect(readSampleRate(bytes([]))).toBeNull();
+  });
+});
@@ -0,0 +1,131 @@
+// --- Container Headers ---
+// decodeAudioData resamples to the context's rate, so the file's own sample rate has to come
+// from its header. Covers WAV, FLAC, Ogg (Vorbis/Opus), MP3, ADTS AAC and MP4/M4A; anything
+// else (WebM, unusual layouts) yields null rather than a guess.
+
+const MPEG_RATES = [44100, 48000, 32000]; // MPEG-1; halved for MPEG-2, quartered for MPEG-2.5
+const ADTS_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+const OPUS_RATE = 48000; // Opus always decodes at 48 kHz
+const FRAME_SCAN_BYTES = 4096; // How far past the ID3 tag to look for the first frame
+
+const ascii = (view: DataView, offset: number, length: number) => {
+  if (offset + length > view.byteLength) return '';
+  let text = '';
+  for (let i = 0; i < length; i++) text += String.fromCharCode(view.getUint8(offset + i));
+  return text;
+};
+
+const positive = (rate: number) => rate > 0 ? rate : null;
+
+const readWav = (view: DataView): number | null => {
+  let offset = 12;
+  while (offset + 8 <= view.byteLength) {
+    const size = view.getUint32(offset + 4, true);
+    if (ascii(view, offset, 4) === 'fmt ') {
+      return offset + 12 <= view.byteLength ? positive(view.getUint32(offset + 12, true)) : null;
+    }
+    offset += 8 + size + (size % 2); // Chunks are padded to even sizes
+  }
+  return null;
+};
+
+// STREAMINFO is always the first metadata block; the rate is 20 bits from its 10th byte
+const readFlac = (view: DataView): number | null => {
+  if (view.byteLength < 21) return null;
+  return positive((view.getUint8(18) << 12) | (view.getUint8(19) << 4) | (view.getUint8(20) >> 4));
+};
+
+const readOgg = (view: DataView): number | null => {
+  if (view.byteLength < 27) return null;
+  const packet = 27 + view.getUint8(26); // After the segment table of the first page
+  if (ascii(view, packet, 8) === 'OpusHead') return OPUS_RATE;
+  if (view.getUint8(packet) === 1 && ascii(view, packet + 1, 6) === 'vorbis' && packet + 16 <= view.byteLength) {
+    return positive(view.getUint32(packet + 12, true));
+  }
+  return null;
+};
+
+// MP3 and ADTS AAC: the first frame header after an optional ID3v2 tag
+const readFrames = (view: DataView): number | null => {
+  let start = 0;
+  if (ascii(view, 0, 3) === 'ID3' && view.byteLength >= 10) {
+    const size = ((view.getUint8(6) & 0x7f) << 21) | ((view.getUint8(7) & 0x7f) << 14)
+      | ((view.getUint8(8) & 0x7f) << 7) | (view.getUint8(9) & 0x7f);
+    start = 10 + size + (view.getUint8(5) & 0x10 ? 10 : 0); // Footer flag
+  }
+  const end = Math.min(start + FRAME_SCAN_BYTES, view.byteLength - 3);
+  for (let offset = start; offset < end; offset++) {
+    const b1 = view.getUint8(offset + 1);
+    if (view.getUint8(offset) !== 0xff || (b1 & 0xe0) !== 0xe0) continue;
+    const b2 = view.getUint8(offset + 2);
+    const layer = (b1 >> 1) & 3;
+    if (layer === 0 && (b1 & 0xf0) === 0xf0) {
+      const rate = ADTS_RATES[(b2 >> 2) & 0xf];
+      if (rate) return rate;
+      continue;
+    }
+    const version = (b1 >> 3) & 3; // 3 = MPEG-1, 2 = MPEG-2, 0 = MPEG-2.5
+    const rateIndex = (b2 >> 2) & 3;
+    if (version === 1 || layer === 0 || rateIndex === 3 || b2 >> 4 === 0xf) continue;
+    return MPEG_RATES[rateIndex] / (version === 3 ? 1 : version === 2 ? 2 : 4);
+  }
+  return null;
+};
+
+type Box = { type: string; start: number; end: number }; // Content range, after the header
+
+const mp4Boxes = (view: DataView, start: number, end: number): Box[] => {
+  const boxes: Box[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    let header = 8;
+    if (size === 1) {
+      if (offset + 16 > end) break;
+      size = Number(view.getBigUint64(offset + 8)); // 64-bit size
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset; // Runs to the end
+    }
+    if (size < header) break;
+    boxes.push({ type: ascii(view, offset + 4, 4), start: offset + header, end: Math.min(offset + size, end) });
+    offset += size;
+  }
+  return boxes;
+};
+
+const mp4Child = (view: DataView, box: Box | undefined, type: string) =>
+  box && mp4Boxes(view, box.start, box.end).find(child => child.type === type);
+
+// The first sound track's sample entry (mp4a, alac…) holds the rate as a 16.16 number
+const readMp4 = (view: DataView): number | null => {
+  const moov = mp4Boxes(view, 0, view.byteLength).find(box => box.type === 'moov');
+  if (!moov) return null;
+  for (const trak of mp4Boxes(view, moov.start, moov.end)) {
+    if (trak.type !== 'trak') continue;
+    const mdia = mp4Child(view, trak, 'mdia');
+    const handler = mp4Child(view, mdia, 'hdlr');
+    if (!handler || ascii(view, handler.start + 8, 4) !== 'soun') continue; // Video, text…
+    const stsd = mp4Child(view, mp4Child(view, mp4Child(view, mdia, 'minf'), 'stbl'), 'stsd');
+    if (!stsd) return null;
+    const entry = stsd.start + 8; // After version/flags and the entry count
+    return entry + 34 <= stsd.end ? positive(view.getUint16(entry + 32)) : null;
+  }
+  return null;
+};
+
+// The file's own sample rate in Hz, or null when the format isn't recognized
+export const readSampleRate = (data: ArrayBuffer): number | null => {
+  const view = new DataView(data);
+  try {
+    const magic = ascii(view, 0, 4);
+    if (magic === 'RIFF' && ascii(view, 8, 4) === 'WAVE') return readWav(view);
+    if (magic === 'fLaC') return readFlac(view);
+    if (magic === 'OggS') return readOgg(view);
+    if (ascii(view, 4, 4) === 'ftyp') return readMp4(view);
+    return readFrames(view);
+  } catch {
+    // Truncated or malformed header
+    return null;
+  }
+};
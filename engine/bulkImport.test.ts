@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import type { LevelAssignmentRule } from './bulkImport';
+import { assignLevels, DEFAULT_ASSIGNMENT_RULES, matchLevel } from './bulkImport';
+
+const entry = (path: string) => ({ file: new File([], path.split('/').pop() ?? path), path });
+
+describe('matchLevel', () => {
+  it.each([
+    ['L1_moan.mp3', 1],
+    ['l2_breath.wav', 2],
+    ['L3-whisper.ogg', 3],
+    ['pack/level4/clip.mp3', 4],
+    ['pack/LEVEL5/clip.mp3', 5],
+    ['lv2/clip.mp3', 2],
+    ['阶段3/clip.mp3', 3],
+    ['pack/L4_set/clip.mp3', 4],
+  ] as const)('matches %s to level %i', (path, level) => {
+    expect(matchLevel(path, DEFAULT_ASSIGNMENT_RULES)).toBe(level);
+  });
+
+  it.each([
+    'clip.mp3',
+    'level1.mp3', // Folder rules match whole names only
+    'L6_clip.mp3',
+    'myL1_clip.mp3',
+    'pack/level/clip.mp3',
+    'pack/level12/clip.mp3',
+    '',
+  ])('leaves %j unmatched', path => {
+    expect(matchLevel(path, DEFAULT_ASSIGNMENT_RULES)).toBeNull();
+  });
+
+  describe('ambiguous names', () => {
+    it('prefers the file name over its folders', () => {
+      expect(matchLevel('level1/L3_clip.mp3', DEFAULT_ASSIGNMENT_RULES)).toBe(3);
+    });
+
+    it('prefers inner folders over outer ones', () => {
+      expect(matchLevel('level1/level2/clip.mp3', DEFAULT_ASSIGNMENT_RULES)).toBe(2);
+    });
+
+    it('follows the first rule when several match the same name', () => {
+      const rules: LevelAssignmentRule[] = [{ pattern: '*moan*', level: 2 }, { pattern: '*moan*', level: 4 }];
+      expect(matchLevel('soft_moan.mp3', rules)).toBe(2);
+    });
+
+    it('reads only the prefix of a name tagged twice', () => {
+      expect(matchLevel('L2_L3_clip.mp3', DEFAULT_ASSIGNMENT_RULES)).toBe(2);
+    });
+  });
+
+  describe('custom patterns', () => {
+    it('supports ? and escapes regex characters', () => {
+      const rules: LevelAssignmentRule[] = [{ pattern: 'take?(final).mp3', level: 5 }];
+      expect(matchLevel('take2(final).mp3', rules)).toBe(5);
+      expect(matchLevel('take22(final).mp3', rules)).toBeNull();
+      expect(matchLevel('take2final.mp3', rules)).toBeNull();
+    });
+
+    it('ignores blank patterns and surrounding spaces', () => {
+      const rules: LevelAssignmentRule[] = [{ pattern: '  ', level: 1 }, { pattern: ' *.wav ', level: 3 }];
+      expect(matchLevel('clip.wav', rules)).toBe(3);
+      expect(matchLevel('clip.mp3', rules)).toBeNull();
+    });
+  });
+});
+
+describe('assignLevels', () => {
+  it('matches new entries', () => {
+    const items = assignLevels([entry('L1_a.mp3'), entry('b.mp3')], DEFAULT_ASSIGNMENT_RULES);
+    expect(items.map(({ level, manual }) => ({ level, manual }))).toEqual([
+      { level: 1, manual: false },
+      { level: null, manual: false },
+    ]);
+  });
+
+  it('re-matches items from earlier rules but keeps hand-assigned ones', () => {
+    const rules: LevelAssignmentRule[] = [{ pattern: '*.mp3', level: 4 }];
+    const items = assignLevels([
+      { ...entry('L1_a.mp3'), level: 1, manual: false },
+      { ...entry('b.mp3'), level: 2, manual: true },
+    ], rules);
+    expect(items.map(item => item.level)).toEqual([4, 2]);
+    expect(items[1].manual).toBe(true);
+  });
+});
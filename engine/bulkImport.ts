@@ -0,0 +1,115 @@
+import type { LevelId } from '../types';
+import { LEVEL_IDS } from '../types';
+
+// --- Bulk Import ---
+// Many clips at once (directory picker or drag-and-drop), assigned to levels by
+// glob patterns matched against folder names and file names.
+
+export type LevelAssignmentRule = {
+  pattern: string; // Glob: `*` = any run of characters, `?` = one character; case-insensitive
+  level: LevelId;
+};
+
+export type ImportEntry = {
+  file: File;
+  path: string; // Relative path incl. folders, e.g. "pack/level3/moan.mp3"
+};
+
+export type BulkImportItem = ImportEntry & {
+  level: LevelId | null; // null = not matched (skipped unless assigned by hand)
+  manual: boolean; // Assigned by hand in the review, so rule changes leave it alone
+};
+
+export const DEFAULT_ASSIGNMENT_RULES: LevelAssignmentRule[] = LEVEL_IDS.flatMap(level => [
+  { pattern: `L${level}_*`, level },
+  { pattern: `L${level}-*`, level },
+  { pattern: `level${level}`, level },
+  { pattern: `lv${level}`, level },
+  { pattern: `阶段${level}`, level },
+]);
+
+const AUDIO_EXTENSIONS = /\.(mp3|m4a|aac|wav|ogg|oga|opus|flac|webm)$/i;
+
+export const isAudioFile = (file: File) => file.type.startsWith('audio/') || AUDIO_EXTENSIONS.test(file.name);
+
+const globToRegExp = (pattern: string) =>
+  new RegExp(
+    `^${pattern.trim().replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.')}$`,
+    'i',
+  );
+
+// The file name is checked first, then its folders from the innermost outwards,
+// so a tagged file inside a tagged folder follows its own tag.
+export const matchLevel = (path: string, rules: LevelAssignmentRule[]): LevelId | null => {
+  const compiled = rules
+    .filter(rule => rule.pattern.trim() !== '')
+    .map(rule => ({ regex: globToRegExp(rule.pattern), level: rule.level }));
+  const segments = path.split('/').filter(Boolean).reverse();
+  for (const segment of segments) {
+    const match = compiled.find(rule => rule.regex.test(segment));
+    if (match) return match.level;
+  }
+  return null;
+};
+
+// Re-runs the rules over every item that wasn't assigned by hand.
+export const assignLevels = (
+  items: (ImportEntry | BulkImportItem)[],
+  rules: LevelAssignmentRule[],
+): BulkImportItem[] =>
+  items.map(item =>
+    'manual' in item && item.manual
+      ? item
+      : { file: item.file, path: item.path, level: matchLevel(item.path, rules), manual: false },
+  );
+
+// --- Collecting Files ---
+
+// From <input type="file" webkitdirectory> (or a plain multi-file input)
+export const entriesFromFileList = (files: FileList): ImportEntry[] =>
+  Array.from(files)
+    .filter(isAudioFile)
+    .map(file => ({ file, path: file.webkitRelativePath || file.name }));
+
+const readDirectory = (directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  // readEntries returns results in batches until it yields an empty one
+  return new Promise((resolve, reject) => {
+    const readBatch = () => reader.readEntries(batch => {
+      if (batch.length === 0) {
+        resolve(entries);
+        return;
+      }
+      entries.push(...batch);
+      readBatch();
+    }, reject);
+    readBatch();
+  });
+};
+
+const collectEntry = async (entry: FileSystemEntry, into: ImportEntry[]) => {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    if (isAudioFile(file)) into.push({ file, path: entry.fullPath.replace(/^\//, '') });
+  } else if (entry.isDirectory) {
+    for (const child of await readDirectory(entry as FileSystemDirectoryEntry)) {
+      await collectEntry(child, into);
+    }
+  }
+};
+
+// Walks dropped folders recursively; falls back to the flat file list where
+// the entries API isn't available.
+export const entriesFromDataTransfer = async (data: DataTransfer): Promise<ImportEntry[]> => {
+  const roots = Array.from(data.items)
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+  if (roots.length === 0) return entriesFromFileList(data.files);
+
+  const entries: ImportEntry[] = [];
+  for (const root of roots) {
+    await collectEntry(root, entries);
+  }
+  return entries.sort((a, b) => a.path.localeCompare(b.path));
+};
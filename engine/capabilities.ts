@@ -0,0 +1,23 @@
+// --- Capability Detection ---
+// What the browser offers before anything is requested. `prompt` means the API exists
+// but only a permission request (or, for audio, a tap) will tell whether it can be used.
+
+export type CapabilityStatus = 'available' | 'prompt' | 'unsupported';
+
+export type Capabilities = {
+  motion: CapabilityStatus;
+  microphone: CapabilityStatus;
+  audio: CapabilityStatus;
+  secureContext: boolean; // Sensors and the microphone are withheld on plain HTTP
+};
+
+export const detectCapabilities = (): Capabilities => {
+  const motion: CapabilityStatus =
+    typeof DeviceMotionEvent === 'undefined' ? 'unsupported'
+    : typeof (DeviceMotionEvent as any).requestPermission === 'function' ? 'prompt' // iOS 13+
+    : 'available';
+  const microphone: CapabilityStatus = navigator.mediaDevices?.getUserMedia ? 'prompt' : 'unsupported';
+  const audio: CapabilityStatus =
+    window.AudioContext || (window as any).webkitAudioContext ? 'prompt' : 'unsupported';
+  return { motion, microphone, audio, secureContext: window.isSecureContext };
+};
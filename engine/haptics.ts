@@ -0,0 +1,76 @@
+import type { HapticPattern } from '../types';
+
+// --- Haptic Output ---
+// Vibrates in time with the playing level. The rhythm follows intensity (0–1, from pleasure):
+// longer pulses with shorter gaps as it rises. Without the Vibration API every call is a no-op.
+
+const BURST_REPEATS = 3;
+const BURST_GAP_MS = 60;
+
+export type HapticEngine = {
+  supported: boolean;
+  // null stops the rhythm; calling again with new values takes effect from the next pulse
+  setRhythm: (pattern: HapticPattern | null, intensity: number) => void;
+  // A short run of strong pulses, after which the rhythm carries on
+  burst: (pattern: HapticPattern) => void;
+  stop: () => void;
+};
+
+export const createHapticEngine = (): HapticEngine => {
+  const supported = typeof navigator !== 'undefined' && 'vibrate' in navigator;
+  let rhythm: { pattern: HapticPattern; intensity: number } | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const vibrate = (pattern: number | number[]) => {
+    try {
+      navigator.vibrate(pattern);
+    } catch (error) {
+      console.warn("Vibration failed:", error);
+    }
+  };
+
+  const clearTimer = () => {
+    if (timer !== null) clearTimeout(timer);
+    timer = null;
+  };
+
+  const pulse = () => {
+    timer = null;
+    if (!rhythm) return;
+    const { pattern, intensity } = rhythm;
+    const pulseMs = Math.round(pattern.pulseMs * (0.3 + 0.7 * intensity));
+    const gapMs = Math.round(pattern.gapMs * (1.5 - intensity));
+    vibrate(pulseMs);
+    timer = setTimeout(pulse, pulseMs + gapMs);
+  };
+
+  const setRhythm = (pattern: HapticPattern | null, intensity: number) => {
+    if (!supported) return;
+    const wasRunning = rhythm !== null;
+    rhythm = pattern?.enabled ? { pattern, intensity: Math.min(Math.max(intensity, 0), 1) } : null;
+    if (!rhythm) {
+      clearTimer();
+      if (wasRunning) vibrate(0);
+    } else if (timer === null) {
+      pulse();
+    }
+  };
+
+  const burst = (pattern: HapticPattern) => {
+    if (!supported || !pattern.enabled) return;
+    clearTimer();
+    const sequence = Array.from({ length: BURST_REPEATS }, () => [pattern.pulseMs, BURST_GAP_MS]).flat();
+    vibrate(sequence);
+    const totalMs = sequence.reduce((sum, ms) => sum + ms, 0);
+    timer = setTimeout(pulse, totalMs);
+  };
+
+  const stop = () => {
+    if (!supported) return;
+    rhythm = null;
+    clearTimer();
+    vibrate(0);
+  };
+
+  return { supported, setRhythm, burst, stop };
+};
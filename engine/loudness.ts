@@ -0,0 +1,83 @@
+// --- Loudness Analysis ---
+// Integrated loudness in the spirit of ITU-R BS.1770: K-weighting, 400ms blocks
+// with 75% overlap, an absolute gate at -70 LUFS and a relative gate 10 LU below.
+
+export const TARGET_LOUDNESS = -16; // LUFS, a common target for mobile playback
+const MAX_BOOST_DB = 12;
+const MAX_CUT_DB = -24;
+const ABSOLUTE_GATE = -70;
+const RELATIVE_GATE = -10;
+
+export type LoudnessResult = {
+  loudness: number; // LUFS
+  normalizationDb: number; // Gain that brings the clip to TARGET_LOUDNESS
+};
+
+export const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+const blockLoudness = (meanSquare: number) => -0.691 + 10 * Math.log10(meanSquare);
+
+// Filtering happens offline, so no user gesture or running context is needed.
+const kWeight = async (buffer: AudioBuffer): Promise<AudioBuffer> => {
+  const ctx = new OfflineAudioContext(buffer.numberOfChannels, buffer.length, buffer.sampleRate);
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+
+  const shelf = ctx.createBiquadFilter();
+  shelf.type = 'highshelf';
+  shelf.frequency.value = 1681;
+  shelf.gain.value = 4;
+
+  const highpass = ctx.createBiquadFilter();
+  highpass.type = 'highpass';
+  highpass.frequency.value = 38;
+  highpass.Q.value = 0.5;
+
+  source.connect(shelf).connect(highpass).connect(ctx.destination);
+  source.start();
+  return ctx.startRendering();
+};
+
+export const analyzeLoudness = async (buffer: AudioBuffer): Promise<LoudnessResult> => {
+  const weighted = await kWeight(buffer);
+
+  const blockSize = Math.round(weighted.sampleRate * 0.4);
+  const step = Math.round(blockSize / 4);
+  const channels = Array.from({ length: weighted.numberOfChannels }, (_, c) => weighted.getChannelData(c));
+
+  const blocks: number[] = [];
+  for (let start = 0; start + blockSize <= weighted.length; start += step) {
+    let sum = 0;
+    channels.forEach(data => {
+      for (let i = start; i < start + blockSize; i++) sum += data[i] * data[i];
+    });
+    blocks.push(sum / blockSize);
+  }
+  // Clips shorter than one block are measured as a whole
+  if (blocks.length === 0) {
+    let sum = 0;
+    channels.forEach(data => data.forEach(v => { sum += v * v; }));
+    blocks.push(sum / Math.max(weighted.length, 1));
+  }
+
+  const aboveAbsolute = blocks.filter(ms => blockLoudness(ms) > ABSOLUTE_GATE);
+  if (aboveAbsolute.length === 0) {
+    // Silence: nothing sensible to normalize against
+    return { loudness: ABSOLUTE_GATE, normalizationDb: 0 };
+  }
+  const ungated = aboveAbsolute.reduce((a, b) => a + b, 0) / aboveAbsolute.length;
+  const relativeGate = blockLoudness(ungated) + RELATIVE_GATE;
+  const gated = aboveAbsolute.filter(ms => blockLoudness(ms) > relativeGate);
+  const loudness = blockLoudness(gated.reduce((a, b) => a + b, 0) / gated.length);
+
+  // Never push the sample peak past full scale
+  let peak = 0;
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < data.length; i++) peak = Math.max(peak, Math.abs(data[i]));
+  }
+  const headroomDb = peak > 0 ? -20 * Math.log10(peak) : MAX_BOOST_DB;
+
+  const normalizationDb = Math.max(MAX_CUT_DB, Math.min(TARGET_LOUDNESS - loudness, MAX_BOOST_DB, headroomDb));
+  return { loudness, normalizationDb };
+};
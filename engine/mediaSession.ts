@@ -0,0 +1,114 @@
+// --- Media Session ---
+// Lock screen, notification and headset controls. Browsers without the API get no-ops.
+// Mobile browsers only show the controls while a media element plays, and Web Audio doesn't
+// count, so a silent looping track plays alongside the session.
+
+const SILENCE_SECONDS = 10; // Android skips the notification for very short media
+const SILENCE_RATE = 8000;
+
+const ARTWORK = [
+  { src: 'icon-192.png', sizes: '192x192', type: 'image/png' },
+  { src: 'icon-512.png', sizes: '512x512', type: 'image/png' },
+];
+
+export type MediaSessionHandlers = {
+  play: () => void;
+  pause: () => void;
+  next: () => void;
+  previous: () => void;
+};
+
+export type NowPlaying = {
+  title: string; // The level
+  artist: string; // The scheme
+};
+
+export type MediaSessionController = {
+  setNowPlaying: (info: NowPlaying | null) => void;
+  setActive: (active: boolean) => void; // Shown as playing / paused
+  dispose: () => void;
+};
+
+// 8-bit mono WAV: 128 is the zero line
+const createSilenceUrl = () => {
+  const samples = SILENCE_SECONDS * SILENCE_RATE;
+  const header = new DataView(new ArrayBuffer(44));
+  const text = (offset: number, value: string) => [...value].forEach((char, i) => header.setUint8(offset + i, char.charCodeAt(0)));
+  text(0, 'RIFF');
+  header.setUint32(4, 36 + samples, true);
+  text(8, 'WAVE');
+  text(12, 'fmt ');
+  header.setUint32(16, 16, true);
+  header.setUint16(20, 1, true); // PCM
+  header.setUint16(22, 1, true); // Mono
+  header.setUint32(24, SILENCE_RATE, true);
+  header.setUint32(28, SILENCE_RATE, true); // Bytes per second
+  header.setUint16(32, 1, true); // Block align
+  header.setUint16(34, 8, true); // Bits per sample
+  text(36, 'data');
+  header.setUint32(40, samples, true);
+  return URL.createObjectURL(new Blob([header, new Uint8Array(samples).fill(128)], { type: 'audio/wav' }));
+};
+
+export const createMediaSessionController = (handlers: MediaSessionHandlers): MediaSessionController => {
+  if (!('mediaSession' in navigator)) {
+    return { setNowPlaying: () => {}, setActive: () => {}, dispose: () => {} };
+  }
+  const { mediaSession } = navigator;
+
+  const actions: [MediaSessionAction, () => void][] = [
+    ['play', handlers.play],
+    ['pause', handlers.pause],
+    ['nexttrack', handlers.next],
+    ['previoustrack', handlers.previous],
+  ];
+  // Browsers throw for actions they don't know
+  const setActionHandlers = (enabled: boolean) => {
+    actions.forEach(([action, handler]) => {
+      try {
+        mediaSession.setActionHandler(action, enabled ? handler : null);
+      } catch (error) {
+        console.warn(`Media session action "${action}" unsupported:`, error);
+      }
+    });
+  };
+  setActionHandlers(true);
+
+  let current: NowPlaying | null = null;
+  let silence: HTMLAudioElement | null = null; // Created on first use
+
+  // Has to start inside a user gesture like any playback; elsewhere it may be refused
+  const setSilencePlaying = (playing: boolean) => {
+    if (!playing) {
+      silence?.pause();
+      return;
+    }
+    if (!silence) {
+      silence = new Audio(createSilenceUrl());
+      silence.loop = true;
+    }
+    silence.play().catch(error => console.warn("Media session keep-alive refused:", error));
+  };
+
+  return {
+    setNowPlaying: info => {
+      if (info?.title === current?.title && info?.artist === current?.artist) return;
+      current = info;
+      mediaSession.metadata = info ? new MediaMetadata({ ...info, album: 'Joysound', artwork: ARTWORK }) : null;
+    },
+    setActive: active => {
+      setSilencePlaying(active);
+      mediaSession.playbackState = active ? 'playing' : 'paused';
+    },
+    dispose: () => {
+      setActionHandlers(false);
+      if (silence) {
+        silence.pause();
+        URL.revokeObjectURL(silence.src);
+        silence = null;
+      }
+      mediaSession.metadata = null;
+      mediaSession.playbackState = 'none';
+    },
+  };
+};
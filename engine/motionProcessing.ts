@@ -0,0 +1,143 @@
+import type { MotionSample } from './motionSources';
+
+// --- Motion Signal Processing ---
+// Raw samples -> gravity removed (high-pass) -> smoothed magnitude -> adaptive threshold.
+// Also estimates the rhythm of the motion and an intensity relative to the calibrated level.
+
+export type Calibration = {
+  threshold: number; // Smoothed magnitude that counts as motion
+  motionLevel: number; // Typical magnitude of deliberate motion, intensity 1.0
+};
+
+export const DEFAULT_CALIBRATION: Calibration = { threshold: 2.0, motionLevel: 5.0 };
+
+export type ProcessedMotion = {
+  magnitude: number; // Filtered and smoothed
+  threshold: number; // Effective threshold after adaptation
+  isMotion: boolean;
+  intensity: number; // 0 when idle, 1.0 at the calibrated motion level
+  frequencyHz: number | null; // Estimated rhythm, null until enough peaks
+};
+
+export type MotionProcessor = {
+  process: (sample: MotionSample) => ProcessedMotion;
+};
+
+const GRAVITY_TIME_CONSTANT_MS = 400; // Low-pass that tracks gravity/orientation
+const SMOOTHING_TIME_CONSTANT_MS = 80;
+const NOISE_TIME_CONSTANT_MS = 5000;
+const NOISE_FACTOR = 3; // Threshold never sits closer than this to the noise floor
+const RHYTHM_WINDOW_MS = 5000;
+const RHYTHM_MEAN_TIME_CONSTANT_MS = 600;
+const RHYTHM_HYSTERESIS = 0.15; // Peak = rise 15% above the running mean after dipping 15% below
+const MAX_INTENSITY = 2;
+
+// Exponential smoothing factor for a given time constant and sample interval
+const alpha = (dtMs: number, timeConstantMs: number) => 1 - Math.exp(-dtMs / timeConstantMs);
+
+export const createMotionProcessor = (calibration: Calibration = DEFAULT_CALIBRATION): MotionProcessor => {
+  let gravity: { x: number; y: number; z: number } | null = null;
+  let smoothed = 0;
+  let noiseFloor = 0;
+  let lastTimestamp: number | null = null;
+  let rhythmMean = 0;
+  let armed = false;
+  const peaks: number[] = [];
+
+  const highPassMagnitude = (sample: MotionSample, a: number) => {
+    const acc = sample.acceleration;
+    if (!acc) return sample.magnitude;
+    if (!gravity) {
+      gravity = { ...acc };
+      return 0;
+    }
+    gravity = {
+      x: gravity.x + (acc.x - gravity.x) * a,
+      y: gravity.y + (acc.y - gravity.y) * a,
+      z: gravity.z + (acc.z - gravity.z) * a,
+    };
+    const x = acc.x - gravity.x;
+    const y = acc.y - gravity.y;
+    const z = acc.z - gravity.z;
+    return Math.sqrt(x*x + y*y + z*z);
+  };
+
+  const process = (sample: MotionSample): ProcessedMotion => {
+    const dt = lastTimestamp === null ? 16 : Math.max(sample.timestamp - lastTimestamp, 1);
+    lastTimestamp = sample.timestamp;
+
+    const raw = highPassMagnitude(sample, alpha(dt, GRAVITY_TIME_CONSTANT_MS));
+    smoothed += (raw - smoothed) * alpha(dt, SMOOTHING_TIME_CONSTANT_MS);
+
+    const threshold = Math.max(calibration.threshold, noiseFloor * NOISE_FACTOR);
+    const isMotion = smoothed > threshold;
+    if (!isMotion) {
+      // Only quiet periods feed the noise floor, so sustained motion can't raise it
+      noiseFloor += (smoothed - noiseFloor) * alpha(dt, NOISE_TIME_CONSTANT_MS);
+    }
+
+    // Rhythm: peaks of the magnitude around its running mean (Schmitt trigger)
+    rhythmMean += (smoothed - rhythmMean) * alpha(dt, RHYTHM_MEAN_TIME_CONSTANT_MS);
+    if (smoothed < rhythmMean * (1 - RHYTHM_HYSTERESIS)) {
+      armed = true;
+    } else if (armed && isMotion && smoothed > rhythmMean * (1 + RHYTHM_HYSTERESIS)) {
+      armed = false;
+      peaks.push(sample.timestamp);
+    }
+    while (peaks.length > 0 && sample.timestamp - peaks[0] > RHYTHM_WINDOW_MS) peaks.shift();
+    // A back-and-forth stroke peaks twice in acceleration magnitude (once per direction)
+    const peaksPerStroke = sample.acceleration ? 2 : 1;
+    const frequencyHz = peaks.length >= 3 && sample.timestamp - peaks[peaks.length - 1] < RHYTHM_WINDOW_MS / 2
+      ? (peaks.length - 1) / ((peaks[peaks.length - 1] - peaks[0]) / 1000) / peaksPerStroke
+      : null;
+
+    return {
+      magnitude: smoothed,
+      threshold,
+      isMotion,
+      intensity: isMotion ? Math.min(smoothed / calibration.motionLevel, MAX_INTENSITY) : 0,
+      frequencyHz,
+    };
+  };
+
+  return { process };
+};
+
+// --- Calibration ---
+// Records the processed magnitude during a rest phase and a motion phase.
+
+export type CalibrationPhase = 'rest' | 'motion';
+
+export type CalibrationRecorder = {
+  add: (sample: MotionSample) => void;
+  setPhase: (phase: CalibrationPhase) => void;
+  finish: () => Calibration | null;
+};
+
+const percentile = (values: number[], p: number) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))];
+};
+
+export const createCalibrationRecorder = (): CalibrationRecorder => {
+  // Threshold of Infinity: only filtering and smoothing matter here
+  const processor = createMotionProcessor({ threshold: Infinity, motionLevel: 1 });
+  const recorded: Record<CalibrationPhase, number[]> = { rest: [], motion: [] };
+  let phase: CalibrationPhase = 'rest';
+
+  return {
+    add: sample => { recorded[phase].push(processor.process(sample).magnitude); },
+    setPhase: next => { phase = next; },
+    // Null when either phase had no samples or motion wasn't clearly above rest
+    finish: () => {
+      if (recorded.rest.length === 0 || recorded.motion.length === 0) return null;
+      const restLevel = percentile(recorded.rest, 0.95);
+      const motionLevel = percentile(recorded.motion, 0.5);
+      if (motionLevel <= restLevel * 1.5) return null;
+      return {
+        threshold: restLevel + (motionLevel - restLevel) * 0.35,
+        motionLevel,
+      };
+    },
+  };
+};
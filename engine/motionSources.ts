@@ -0,0 +1,294 @@
+// --- Motion Input Sources ---
+// Every source reports a stream of motion magnitudes in the same units the original
+// accelerometer delta used, so the threshold and heartbeat don't care where they came from.
+
+export type MotionSourceId = 'devicemotion' | 'tap' | 'microphone' | 'script' | 'remote';
+
+export type MotionSample = {
+  magnitude: number;
+  timestamp: number; // ms
+  acceleration?: { x: number; y: number; z: number }; // Raw reading incl. gravity, accelerometer only
+};
+
+export type MotionSource = {
+  id: MotionSourceId;
+  // Resolves once samples are flowing; rejects with a MotionSourceError when the input is unavailable or denied
+  start: (onSample: (sample: MotionSample) => void) => Promise<void>;
+  stop: () => void;
+};
+
+// insecure = the API is withheld because the page isn't served over HTTPS
+export type MotionSourceErrorCode = 'unsupported' | 'denied' | 'insecure';
+
+export class MotionSourceError extends Error {
+  constructor(readonly code: MotionSourceErrorCode, message: string) {
+    super(message);
+    this.name = 'MotionSourceError';
+  }
+}
+
+const unavailable = (what: string) =>
+  window.isSecureContext
+    ? new MotionSourceError('unsupported', `${what} is not supported`)
+    : new MotionSourceError('insecure', `${what} needs a secure context`);
+
+// --- Device Motion (accelerometer) ---
+
+export const createDeviceMotionSource = (): MotionSource => {
+  let handleMotion: ((event: DeviceMotionEvent) => void) | null = null;
+  let generation = 0; // Bumped by stop(), so a start still waiting on the permission prompt gives up
+
+  const stop = () => {
+    generation++;
+    if (handleMotion) window.removeEventListener('devicemotion', handleMotion);
+    handleMotion = null;
+  };
+
+  const start = async (onSample: (sample: MotionSample) => void) => {
+    if (typeof DeviceMotionEvent === 'undefined') {
+      throw unavailable('DeviceMotionEvent');
+    }
+    stop();
+    const run = generation;
+    if (typeof (DeviceMotionEvent as any).requestPermission === 'function') {
+      // Also rejects when not called from a user gesture
+      const response: string = await (DeviceMotionEvent as any).requestPermission().catch(() => 'denied');
+      if (response !== 'granted') {
+        throw new MotionSourceError('denied', 'Motion permission denied');
+      }
+      if (run !== generation) return; // Stopped while the prompt was open
+    }
+
+    let lastAcc = { x: 0, y: 0, z: 0 };
+    handleMotion = (event: DeviceMotionEvent) => {
+      if (!event.accelerationIncludingGravity) return;
+      const { x, y, z } = event.accelerationIncludingGravity;
+      if (x === null || y === null || z === null) return;
+
+      const deltaX = Math.abs(x - lastAcc.x);
+      const deltaY = Math.abs(y - lastAcc.y);
+      const deltaZ = Math.abs(z - lastAcc.z);
+      lastAcc = { x, y, z };
+
+      onSample({
+        magnitude: Math.sqrt(deltaX*deltaX + deltaY*deltaY + deltaZ*deltaZ),
+        timestamp: Date.now(),
+        acceleration: { x, y, z },
+      });
+    };
+    window.addEventListener('devicemotion', handleMotion);
+  };
+
+  return { id: 'devicemotion', start, stop };
+};
+
+// --- Keyboard / Touch Tap ---
+// Each tap kicks the level up, which then decays like a real sensor settling.
+
+const TAP_MAGNITUDE = 10;
+const TAP_DECAY = 0.6; // Per sample
+const TAP_SAMPLE_MS = 50;
+
+export type TapMotionSource = MotionSource & {
+  tap: () => void;
+};
+
+export const createTapSource = (): TapMotionSource => {
+  let level = 0;
+  let timer: ReturnType<typeof setInterval> | undefined;
+  let handleKey: ((event: KeyboardEvent) => void) | null = null;
+
+  const tap = () => { level = TAP_MAGNITUDE; };
+
+  const stop = () => {
+    clearInterval(timer);
+    timer = undefined;
+    if (handleKey) window.removeEventListener('keydown', handleKey);
+    handleKey = null;
+    level = 0;
+  };
+
+  const start = async (onSample: (sample: MotionSample) => void) => {
+    stop();
+    handleKey = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (event.repeat || target?.closest('input, textarea, select')) return;
+      if (event.code === 'Space') event.preventDefault();
+      tap();
+    };
+    window.addEventListener('keydown', handleKey);
+    timer = setInterval(() => {
+      onSample({ magnitude: level, timestamp: Date.now() });
+      level *= TAP_DECAY;
+    }, TAP_SAMPLE_MS);
+  };
+
+  return { id: 'tap', start, stop, tap };
+};
+
+// --- Microphone Amplitude ---
+
+const MIC_SAMPLE_MS = 50;
+const MIC_GAIN = 40; // RMS 0.05 (normal speech) ≈ magnitude 2
+
+export const createMicrophoneSource = (): MotionSource => {
+  let stream: MediaStream | null = null;
+  let context: AudioContext | null = null;
+  let timer: ReturnType<typeof setInterval> | undefined;
+  let generation = 0; // Bumped by stop(), so a start still waiting on the permission prompt gives up
+
+  const stop = () => {
+    generation++;
+    clearInterval(timer);
+    timer = undefined;
+    stream?.getTracks().forEach(track => track.stop());
+    stream = null;
+    context?.close();
+    context = null;
+  };
+
+  const start = async (onSample: (sample: MotionSample) => void) => {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      throw unavailable('Microphone input');
+    }
+    stop();
+    const run = generation;
+    let granted: MediaStream;
+    try {
+      granted = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (error) {
+      const denied = error instanceof DOMException && error.name === 'NotAllowedError';
+      throw new MotionSourceError(denied ? 'denied' : 'unsupported', `Microphone unavailable: ${error}`);
+    }
+    if (run !== generation) {
+      // Stopped while the prompt was open: release the mic right away
+      granted.getTracks().forEach(track => track.stop());
+      return;
+    }
+    stream = granted;
+
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    context = new AudioContextClass() as AudioContext;
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 1024;
+    context.createMediaStreamSource(granted).connect(analyser);
+    const data = new Float32Array(analyser.fftSize);
+
+    timer = setInterval(() => {
+      analyser.getFloatTimeDomainData(data);
+      let sum = 0;
+      for (let i = 0; i < data.length; i++) sum += data[i] * data[i];
+      onSample({ magnitude: Math.sqrt(sum / data.length) * MIC_GAIN, timestamp: Date.now() });
+    }, MIC_SAMPLE_MS);
+  };
+
+  return { id: 'microphone', start, stop };
+};
+
+// --- Scripted / Replay ---
+
+export type ScriptedSample = {
+  t: number; // ms since the script started
+  magnitude: number;
+  acceleration?: MotionSample['acceleration'];
+};
+
+const isAcceleration = (value: any): value is NonNullable<MotionSample['acceleration']> =>
+  ['x', 'y', 'z'].every(axis => typeof value?.[axis] === 'number');
+
+// Accepts either a bare sample array or an object with a `samples` array
+// (which includes session recordings).
+export const parseMotionScript = (raw: unknown): ScriptedSample[] => {
+  const list = Array.isArray(raw) ? raw : (raw as any)?.samples;
+  if (!Array.isArray(list)) throw new Error('Motion script has no samples');
+  const samples = list.filter(s => typeof s?.t === 'number' && typeof s?.magnitude === 'number');
+  if (samples.length === 0) throw new Error('Motion script has no valid samples');
+  return samples
+    .map(s => ({
+      t: s.t,
+      magnitude: s.magnitude,
+      ...(isAcceleration(s.acceleration) && { acceleration: s.acceleration }),
+    }))
+    .sort((a, b) => a.t - b.t);
+};
+
+export const createScriptedSource = (samples: ScriptedSample[], loop = false): MotionSource => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const stop = () => {
+    clearTimeout(timer);
+    timer = undefined;
+  };
+
+  const start = async (onSample: (sample: MotionSample) => void) => {
+    stop();
+    if (samples.length === 0) return;
+    let index = 0;
+    let startedAt = Date.now();
+
+    const next = () => {
+      const sample = samples[index];
+      timer = setTimeout(() => {
+        onSample({ magnitude: sample.magnitude, timestamp: Date.now(), acceleration: sample.acceleration });
+        index++;
+        if (index >= samples.length) {
+          if (!loop) return;
+          index = 0;
+          startedAt = Date.now();
+        }
+        next();
+      }, Math.max(0, startedAt + sample.t - Date.now()));
+    };
+    next();
+  };
+
+  return { id: 'script', start, stop };
+};
+
+// --- Remote (paired controller) ---
+// Samples arrive over the pairing link with the controller's timestamps. They're shifted onto
+// the local clock so the spacing between them survives network jitter.
+
+const REMOTE_CLOCK_RESYNC_MS = 1000; // Shifted timestamps this far off = the controller's clock jumped
+
+export type RemoteMotionSource = MotionSource & {
+  receive: (sample: MotionSample) => void;
+};
+
+export const createRemoteSource = (): RemoteMotionSource => {
+  let handleSample: ((sample: MotionSample) => void) | null = null;
+  let offset: number | null = null;
+
+  const receive = (sample: MotionSample) => {
+    if (!handleSample) return;
+    const now = Date.now();
+    if (offset === null || Math.abs(sample.timestamp + offset - now) > REMOTE_CLOCK_RESYNC_MS) {
+      offset = now - sample.timestamp;
+    }
+    handleSample({ ...sample, timestamp: sample.timestamp + offset });
+  };
+
+  const stop = () => {
+    handleSample = null;
+    offset = null;
+  };
+
+  const start = async (onSample: (sample: MotionSample) => void) => {
+    handleSample = onSample;
+  };
+
+  return { id: 'remote', start, stop, receive };
+};
+
+// --- Factory ---
+
+// The script source loops whatever script is loaded (nothing at all without one)
+export const createMotionSource = (id: MotionSourceId, script: ScriptedSample[] | null): MotionSource => {
+  switch (id) {
+    case 'tap': return createTapSource();
+    case 'microphone': return createMicrophoneSource();
+    case 'script': return createScriptedSource(script ?? [], true);
+    case 'remote': return createRemoteSource();
+    default: return createDeviceMotionSource();
+  }
+};
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import type { SchemeRules, SessionProgram } from '../types';
+import { boundPleasure, programDurationMs, programProgress } from './programs';
+import type { ProgramProgress } from './programs';
+import { DEFAULT_RULES } from './rules';
+
+const PROGRAM: SessionProgram = {
+  id: 'program',
+  name: 'Test',
+  steps: [
+    { durationMs: 10000, floor: 0, ceiling: 0.6 },
+    { durationMs: 20000, floor: 0.3, ceiling: 1 },
+  ],
+  cooldownMs: 5000,
+  fadeOutMs: 1000,
+};
+
+const inStep = (floor: number, ceiling: number): ProgramProgress => ({
+  phase: 'step', stepIndex: 0, floor, ceiling, remainingMs: 1000,
+});
+
+describe('programDurationMs', () => {
+  it('adds up the steps and the cooldown', () => {
+    expect(programDurationMs(PROGRAM)).toBe(35000);
+  });
+});
+
+describe('programProgress', () => {
+  it.each([
+    [0, 0, 0, 1],
+    [5000, 0, 0, 0.8],
+    [10000, 1, 0, 0.6], // The next step starts from the bounds the last one reached
+    [20000, 1, 0.15, 0.8],
+    [29999, 1, 0.3, 1],
+  ])('at %i ms runs step %i, eased towards its bounds', (elapsedMs, stepIndex, floor, ceiling) => {
+    const progress = programProgress(PROGRAM, elapsedMs);
+    expect(progress).toMatchObject({ phase: 'step', stepIndex, remainingMs: 35000 - elapsedMs });
+    expect(progress.floor).toBeCloseTo(floor, 3);
+    expect(progress.ceiling).toBeCloseTo(ceiling, 3);
+  });
+
+  it('cools down once every step is done', () => {
+    expect(programProgress(PROGRAM, 30000)).toEqual({ phase: 'cooldown', stepIndex: 2, floor: 0, ceiling: 1, remainingMs: 5000 });
+  });
+
+  it('finishes at the end of the cooldown, and stays finished', () => {
+    expect(programProgress(PROGRAM, 35000)).toMatchObject({ phase: 'finished', stepIndex: 2, remainingMs: 0 });
+    expect(programProgress(PROGRAM, 90000)).toMatchObject({ phase: 'finished', remainingMs: 0 });
+  });
+
+  it('goes straight to the cooldown without steps', () => {
+    expect(programProgress({ ...PROGRAM, steps: [] }, 0)).toMatchObject({ phase: 'cooldown', stepIndex: 0, remainingMs: 5000 });
+  });
+});
+
+describe('boundPleasure', () => {
+  it('clamps to the floor and the ceiling', () => {
+    expect(boundPleasure(10, inStep(0.3, 0.6), DEFAULT_RULES)).toBe(30);
+    expect(boundPleasure(50, inStep(0.3, 0.6), DEFAULT_RULES)).toBe(50);
+    expect(boundPleasure(80, inStep(0.3, 0.6), DEFAULT_RULES)).toBe(60);
+  });
+
+  it('rounds the bounds inwards to whole pleasure', () => {
+    expect(boundPleasure(0, inStep(0.155, 0.605), DEFAULT_RULES)).toBe(16);
+    expect(boundPleasure(100, inStep(0.155, 0.605), DEFAULT_RULES)).toBe(60);
+  });
+
+  it('lets the floor win when the bounds cross', () => {
+    expect(boundPleasure(90, inStep(0.7, 0.6), DEFAULT_RULES)).toBe(70);
+  });
+
+  it('scales the bounds to the scheme\'s maximum', () => {
+    const rules: SchemeRules = {
+      ...DEFAULT_RULES,
+      bands: { 1: { min: 1, max: 5 }, 2: { min: 6, max: 10 }, 3: { min: 11, max: 15 }, 4: { min: 16, max: 30 } },
+    };
+    expect(boundPleasure(30, inStep(0, 0.5), rules)).toBe(15);
+  });
+
+  it('keeps the cooldown within band 1', () => {
+    const cooldown = programProgress(PROGRAM, 30000);
+    expect(boundPleasure(80, cooldown, DEFAULT_RULES)).toBe(20);
+    expect(boundPleasure(5, cooldown, DEFAULT_RULES)).toBe(5);
+  });
+
+  it('leaves pleasure alone once finished', () => {
+    expect(boundPleasure(80, programProgress(PROGRAM, 35000), DEFAULT_RULES)).toBe(80);
+  });
+});
@@ -0,0 +1,70 @@
+import type { ProgramStep, SchemeRules, SessionProgram } from '../types';
+import { maxPleasure } from './rules';
+
+// --- Session Programs ---
+// Pure timing logic for programs: where a session is at a given elapsed time and which
+// pleasure range it allows there. The session runtime applies the result each heartbeat.
+
+const MINUTE_MS = 60000;
+
+export const DEFAULT_PROGRAM_STEPS: ProgramStep[] = [
+  { durationMs: 5 * MINUTE_MS, floor: 0, ceiling: 0.6 }, // Warm-up: no higher than band 2
+  { durationMs: 10 * MINUTE_MS, floor: 0.3, ceiling: 1 }, // Build-up: pleasure can't fall back to band 1
+];
+
+export const createProgram = (id: string, name: string): SessionProgram => ({
+  id,
+  name,
+  steps: DEFAULT_PROGRAM_STEPS,
+  cooldownMs: 2 * MINUTE_MS,
+  fadeOutMs: 5000,
+});
+
+export const programDurationMs = (program: SessionProgram) =>
+  program.steps.reduce((sum, step) => sum + step.durationMs, 0) + program.cooldownMs;
+
+export type ProgramProgress = {
+  phase: 'step' | 'cooldown' | 'finished';
+  stepIndex: number; // Of the running step; steps.length once they're all done
+  floor: number; // Current bounds as fractions of max pleasure
+  ceiling: number;
+  remainingMs: number; // Until the program stops
+};
+
+export const programProgress = (program: SessionProgram, elapsedMs: number): ProgramProgress => {
+  const remainingMs = Math.max(programDurationMs(program) - elapsedMs, 0);
+  let floor = 0;
+  let ceiling = 1;
+  let stepStart = 0;
+
+  for (let i = 0; i < program.steps.length; i++) {
+    const step = program.steps[i];
+    if (elapsedMs < stepStart + step.durationMs) {
+      const t = (elapsedMs - stepStart) / step.durationMs;
+      return {
+        phase: 'step',
+        stepIndex: i,
+        floor: floor + (step.floor - floor) * t,
+        ceiling: ceiling + (step.ceiling - ceiling) * t,
+        remainingMs,
+      };
+    }
+    floor = step.floor;
+    ceiling = step.ceiling;
+    stepStart += step.durationMs;
+  }
+
+  const phase = remainingMs > 0 ? 'cooldown' : 'finished';
+  return { phase, stepIndex: program.steps.length, floor: 0, ceiling: 1, remainingMs };
+};
+
+// Clamps pleasure into the program's range; the cooldown keeps it within band 1,
+// so only level 1 plays and dirty talk can't build up to a burst.
+export const boundPleasure = (pleasure: number, progress: ProgramProgress, rules: SchemeRules) => {
+  if (progress.phase === 'cooldown') return Math.min(pleasure, rules.bands[1].max);
+  if (progress.phase === 'finished') return pleasure;
+  const max = maxPleasure(rules);
+  const floor = Math.ceil(progress.floor * max);
+  const ceiling = Math.floor(progress.ceiling * max);
+  return Math.min(Math.max(pleasure, floor), Math.max(ceiling, floor));
+};
@@ -0,0 +1,118 @@
+import type { LevelId, SchemeRules } from '../types';
+import type { Calibration } from './motionProcessing';
+import type { MotionSample, MotionSourceId, ScriptedSample } from './motionSources';
+import type { RuleBranch } from './rules';
+
+// --- Session Recording ---
+// Everything needed to explain (and re-run) a session: raw motion input, heartbeat
+// results, rule decisions and the clips that were picked. `samples` uses the motion
+// script shape, so a recording can also be loaded directly as a scripted input.
+
+const RECORDING_FORMAT = 'joysound-recording';
+const RECORDING_VERSION = 1;
+
+export type HeartbeatEvent = {
+  t: number; // ms since the recording started
+  pleasure: number; // After the heartbeat
+  motion: boolean;
+  intensity: number;
+};
+
+export type DecisionEvent = {
+  t: number;
+  pleasure: number;
+  dirtyTalk: number; // After the decision
+  level: LevelId | null;
+  branch: RuleBranch;
+  explanation: string;
+};
+
+export type ClipEvent = {
+  t: number;
+  level: LevelId;
+  fileId: string;
+  fileName: string;
+  durationMs: number | null; // null when the clip failed to play
+};
+
+export type SessionRecording = {
+  format: typeof RECORDING_FORMAT;
+  version: number;
+  startedAt: string;
+  durationMs: number;
+  scheme: { id: string; name: string; rules: SchemeRules };
+  sensitivity: number;
+  motionSourceId: MotionSourceId;
+  calibration: Calibration;
+  samples: ScriptedSample[];
+  heartbeats: HeartbeatEvent[];
+  decisions: DecisionEvent[];
+  clips: ClipEvent[];
+};
+
+export type SessionRecorder = {
+  motion: (sample: MotionSample) => void;
+  heartbeat: (event: Omit<HeartbeatEvent, 't'>) => void;
+  decision: (event: Omit<DecisionEvent, 't'>) => void;
+  clip: (event: Omit<ClipEvent, 't'>) => void;
+  // Clip durations are only known once decoding finished, so they're patched in later
+  clipDuration: (fileId: string, durationMs: number | null) => void;
+  // Safe to call mid-session for a live snapshot
+  finish: () => SessionRecording;
+};
+
+type RecordingMeta = Pick<SessionRecording, 'scheme' | 'sensitivity' | 'motionSourceId' | 'calibration'>;
+
+export const createSessionRecorder = (meta: RecordingMeta, now: () => number = Date.now): SessionRecorder => {
+  const startedAt = now();
+  const elapsed = () => now() - startedAt;
+  const samples: ScriptedSample[] = [];
+  const heartbeats: HeartbeatEvent[] = [];
+  const decisions: DecisionEvent[] = [];
+  const clips: ClipEvent[] = [];
+
+  return {
+    motion: sample => {
+      samples.push({
+        t: sample.timestamp - startedAt,
+        magnitude: sample.magnitude,
+        ...(sample.acceleration && { acceleration: sample.acceleration }),
+      });
+    },
+    heartbeat: event => { heartbeats.push({ t: elapsed(), ...event }); },
+    decision: event => { decisions.push({ t: elapsed(), ...event }); },
+    clip: event => { clips.push({ t: elapsed(), ...event }); },
+    clipDuration: (fileId, durationMs) => {
+      const pending = [...clips].reverse().find(c => c.fileId === fileId);
+      if (pending) pending.durationMs = durationMs;
+    },
+    finish: () => ({
+      format: RECORDING_FORMAT,
+      version: RECORDING_VERSION,
+      startedAt: new Date(startedAt).toISOString(),
+      durationMs: elapsed(),
+      ...meta,
+      samples,
+      heartbeats,
+      decisions,
+      clips,
+    }),
+  };
+};
+
+export const parseRecording = (raw: any): SessionRecording => {
+  if (!raw || raw.format !== RECORDING_FORMAT) {
+    throw new Error('Not a session recording');
+  }
+  if (typeof raw.version !== 'number' || raw.version > RECORDING_VERSION) {
+    throw new Error(`Unsupported recording version ${raw.version}`);
+  }
+  const lists = ['samples', 'heartbeats', 'decisions', 'clips'];
+  if (lists.some(key => !Array.isArray(raw[key])) || !raw.scheme?.rules) {
+    throw new Error('Recording is incomplete');
+  }
+  return raw as SessionRecording;
+};
+
+export const recordingFileName = (recording: SessionRecording) =>
+  `joysound-session-${recording.startedAt.replace(/[:.]/g, '-')}.json`;
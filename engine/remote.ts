@@ -0,0 +1,139 @@
+import type { MotionSample } from './motionSources';
+
+// --- Remote Pairing Link ---
+// Two instances in the same room of the relay (server/relay.mjs) talk over one WebSocket each.
+// The controller streams its motion samples and sends commands; the player runs the session
+// with those samples and reports back what it's doing. The link reconnects on its own until
+// it's closed.
+
+export const RELAY_PORT = 8787;
+const RECONNECT_MIN_MS = 1000;
+const RECONNECT_MAX_MS = 10000;
+const ROOM_CODE_LENGTH = 6;
+const ROOM_CODE_CHARS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // Nothing that reads like 0/O or 1/I
+
+export type RemoteRole = 'controller' | 'player';
+
+// waiting = on the relay, but nobody else is in the room yet
+export type RemoteStatus = 'connecting' | 'waiting' | 'connected' | 'offline';
+
+export type RemoteCommand =
+  | { kind: 'power'; on: boolean } // The player's master switch
+  | { kind: 'scheme'; id: string }
+  | { kind: 'volume'; value: number } // 0.0 - 1.0
+  | { kind: 'sensitivity'; value: number }; // 1 - 5
+
+// What the player reports, so the controller can show it and offer its schemes
+export type PlayerStatus = {
+  schemes: { id: string; name: string }[];
+  activeSchemeId: string;
+  masterSwitch: boolean;
+  globalVolume: number;
+  sensitivity: number;
+  pleasure: number;
+  maxPleasure: number;
+};
+
+export type RemoteMessage =
+  | { type: 'motion'; sample: MotionSample }
+  | { type: 'command'; command: RemoteCommand }
+  | { type: 'status'; status: PlayerStatus }
+  | { type: 'peers'; count: number }; // From the relay, everyone in the room counted
+
+export type RemoteLinkHandlers = {
+  onMessage: (message: RemoteMessage) => void;
+  onStatus: (status: RemoteStatus) => void;
+};
+
+export type RemoteLink = {
+  send: (message: RemoteMessage) => void; // Dropped while not connected
+  close: () => void;
+};
+
+// The relay runs next to the dev server by default
+export const defaultRelayUrl = () =>
+  `${window.location.protocol === 'https:' ? 'wss' : 'ws'}://${window.location.hostname || 'localhost'}:${RELAY_PORT}`;
+
+export const createRoomCode = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(ROOM_CODE_LENGTH)), byte => ROOM_CODE_CHARS[byte % ROOM_CODE_CHARS.length]).join('');
+
+export const normalizeRoomCode = (raw: string) => raw.toUpperCase().replace(/[^A-Z0-9-]/g, '').slice(0, 32);
+
+// Anything that isn't one of our messages is ignored rather than trusted
+export const parseRemoteMessage = (raw: string): RemoteMessage | null => {
+  let message: any;
+  try {
+    message = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  switch (message?.type) {
+    case 'motion':
+      return typeof message.sample?.magnitude === 'number' && typeof message.sample?.timestamp === 'number' ? message : null;
+    case 'command':
+      return typeof message.command?.kind === 'string' ? message : null;
+    case 'status':
+      return Array.isArray(message.status?.schemes) ? message : null;
+    case 'peers':
+      return typeof message.count === 'number' ? message : null;
+    default:
+      return null;
+  }
+};
+
+export const createRemoteLink = (url: string, room: string, handlers: RemoteLinkHandlers): RemoteLink => {
+  let socket: WebSocket | null = null;
+  let closed = false;
+  let retryMs = RECONNECT_MIN_MS;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const connect = () => {
+    handlers.onStatus('connecting');
+    let current: WebSocket;
+    try {
+      const target = new URL(url);
+      target.searchParams.set('room', room);
+      current = new WebSocket(target);
+    } catch (error) {
+      // Malformed URL: retrying won't help
+      console.error("Remote link failed:", error);
+      handlers.onStatus('offline');
+      return;
+    }
+    socket = current;
+
+    current.onopen = () => {
+      retryMs = RECONNECT_MIN_MS;
+      handlers.onStatus('waiting');
+    };
+    current.onmessage = event => {
+      if (typeof event.data !== 'string') return;
+      const message = parseRemoteMessage(event.data);
+      if (!message) return;
+      if (message.type === 'peers') handlers.onStatus(message.count > 1 ? 'connected' : 'waiting');
+      handlers.onMessage(message);
+    };
+    current.onclose = () => {
+      if (socket !== current) return;
+      socket = null;
+      handlers.onStatus('offline');
+      if (closed) return;
+      retryTimer = setTimeout(connect, retryMs);
+      retryMs = Math.min(retryMs * 2, RECONNECT_MAX_MS);
+    };
+  };
+  connect();
+
+  return {
+    send: message => {
+      if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+    },
+    close: () => {
+      closed = true;
+      clearTimeout(retryTimer);
+      const current = socket;
+      socket = null;
+      current?.close();
+    },
+  };
+};
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import type { Scheme } from '../types';
+import { LEVEL_IDS } from '../types';
+import type { ClipEvent, SessionRecording } from './recorder';
+import { replaySession } from './replay';
+import { DEFAULT_RULES } from './rules';
+import { createEmptyLevels, updateLevelFiles } from './schemes';
+
+const SCHEME: Scheme = LEVEL_IDS.reduce<Scheme>(
+  (result, level) => updateLevelFiles(result, level, () => [
+    { id: `clip-${level}`, name: `clip-${level}.mp3`, url: `blob:clip-${level}`, trimDb: 0, weight: 1 },
+  ]),
+  { id: 'scheme', name: 'Test', rules: DEFAULT_RULES, levels: createEmptyLevels() },
+);
+
+// Motion every 100 ms from 0.1 s to 3 s, then stillness until the recording ends at 7 s
+const recording = (clips: ClipEvent[] = [{ t: 0, level: 1, fileId: 'clip-1', fileName: 'clip-1.mp3', durationMs: 1500 }]): SessionRecording => ({
+  format: 'joysound-recording',
+  version: 1,
+  startedAt: '2026-01-01T00:00:00.000Z',
+  durationMs: 7000,
+  scheme: { id: SCHEME.id, name: SCHEME.name, rules: SCHEME.rules },
+  sensitivity: 3,
+  motionSourceId: 'tap',
+  calibration: { threshold: 1, motionLevel: 10 },
+  samples: Array.from({ length: 30 }, (_, i) => ({ t: (i + 1) * 100, magnitude: 10 })),
+  heartbeats: [],
+  decisions: [],
+  clips,
+});
+
+describe('replaySession', () => {
+  it('beats on the scheme\'s heartbeat until the recording ends', () => {
+    const { heartbeats } = replaySession(recording(), SCHEME);
+    expect(heartbeats.map(beat => beat.t)).toEqual([2000, 4000, 6000]);
+    expect(heartbeats.map(beat => beat.motion)).toEqual([true, true, false]);
+    expect(heartbeats[1].pleasure).toBeGreaterThan(heartbeats[0].pleasure);
+    expect(heartbeats[2].pleasure).toBe(Math.max(heartbeats[1].pleasure - DEFAULT_RULES.decayRate, 0));
+  });
+
+  it('decides on motion, then again when each clip ends after its recorded length', () => {
+    const { decisions } = replaySession(recording(), SCHEME);
+    // Pleasure is still 0 before the first heartbeat: every motion sample stops again.
+    // The sample at 2 s comes right after that heartbeat.
+    const early = decisions.filter(decision => decision.t < 2000);
+    expect(early.map(decision => decision.t)).toEqual(Array.from({ length: 19 }, (_, i) => (i + 1) * 100));
+    expect(early.every(decision => decision.level === null && decision.branch === '1')).toBe(true);
+
+    expect(decisions.filter(decision => decision.t >= 2000).map(({ t, level, branch }) => ({ t, level, branch }))).toEqual([
+      { t: 2000, level: 1, branch: '2' },
+      { t: 3500, level: 1, branch: '2' },
+      { t: 5000, level: null, branch: '1' }, // Still for a full heartbeat since 3 s
+    ]);
+  });
+
+  it('ends cleanly, with nothing past the end of the recording', () => {
+    const { heartbeats, decisions, summary } = replaySession(recording(), SCHEME);
+    const times = [...heartbeats, ...decisions].map(event => event.t);
+    expect(Math.max(...times)).toBeLessThanOrEqual(7000);
+    expect(decisions.map(decision => decision.t)).toEqual([...decisions.map(decision => decision.t)].sort((a, b) => a - b));
+    expect(decisions[decisions.length - 1].level).toBeNull();
+    expect(summary.durationMs).toBe(7000);
+  });
+
+  it('falls back to the mean clip length, then to 5 s, for levels without recorded clips', () => {
+    const other: ClipEvent = { t: 0, level: 3, fileId: 'clip-3', fileName: 'clip-3.mp3', durationMs: 1000 };
+    const failed: ClipEvent = { ...other, level: 1, durationMs: null };
+    const playing = (clips: ClipEvent[]) =>
+      replaySession(recording(clips), SCHEME).decisions.filter(decision => decision.t > 2000).map(decision => decision.t);
+    expect(playing([other, failed])).toEqual([3000, 4000, 5000]);
+    expect(playing([])).toEqual([7000]); // Ends right as the recording does
+  });
+
+  it('re-runs with other settings', () => {
+    const calm = replaySession(recording(), SCHEME, { sensitivity: 1, calibration: { threshold: 1, motionLevel: 10 } });
+    const eager = replaySession(recording(), SCHEME, { sensitivity: 5, calibration: { threshold: 1, motionLevel: 10 } });
+    expect(eager.heartbeats[1].pleasure).toBeGreaterThan(calm.heartbeats[1].pleasure);
+  });
+});
@@ -0,0 +1,114 @@
+import type { LevelId, Scheme } from '../types';
+import { LEVEL_IDS } from '../types';
+import { createMotionProcessor } from './motionProcessing';
+import type { Calibration } from './motionProcessing';
+import type { DecisionEvent, HeartbeatEvent, SessionRecording } from './recorder';
+import { cycleIntensity, decideNext, nextPleasure } from './rules';
+import { summarizeSession } from './sessionStats';
+import type { SessionSummary } from './sessionStats';
+
+// --- Offline Replay ---
+// Runs a recording's motion samples through the processor, heartbeat and rules without
+// any audio or timers, so a session can be re-evaluated against different rules instantly.
+// Clips are assumed to last as long as the recorded ones did for the same level; the next
+// decision is made when the clip ends (the live engine decides slightly earlier).
+
+const FALLBACK_CLIP_MS = 5000;
+
+export type ReplayResult = {
+  heartbeats: HeartbeatEvent[];
+  decisions: DecisionEvent[];
+  summary: SessionSummary;
+};
+
+export type ReplayOptions = {
+  sensitivity: number;
+  calibration: Calibration;
+};
+
+// Mean recorded clip length per level, falling back to the overall mean
+const clipDurations = (recording: SessionRecording): Record<LevelId, number> => {
+  const known = recording.clips.filter(c => c.durationMs !== null);
+  const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+  const overall = known.length > 0 ? mean(known.map(c => c.durationMs!)) : FALLBACK_CLIP_MS;
+  const durations = {} as Record<LevelId, number>;
+  LEVEL_IDS.forEach(level => {
+    const forLevel = known.filter(c => c.level === level).map(c => c.durationMs!);
+    durations[level] = forLevel.length > 0 ? mean(forLevel) : overall;
+  });
+  return durations;
+};
+
+export const replaySession = (
+  recording: SessionRecording,
+  scheme: Scheme,
+  { sensitivity, calibration }: ReplayOptions = recording,
+): ReplayResult => {
+  const { rules } = scheme;
+  const processor = createMotionProcessor(calibration);
+  const durations = clipDurations(recording);
+  const heartbeats: HeartbeatEvent[] = [];
+  const decisions: DecisionEvent[] = [];
+
+  let pleasure = 0;
+  let dirtyTalk = 0;
+  let motionInCycle = false;
+  let lastMotionTime = -Infinity;
+  let intensitySum = 0;
+  let intensityCount = 0;
+  let nextBeat = rules.heartbeatMs;
+  let playingUntil: number | null = null;
+
+  const decide = (t: number) => {
+    const decision = decideNext({ pleasure, dirtyTalk, motionInCycle, lastMotionTime }, scheme, t);
+    dirtyTalk = decision.dirtyTalk;
+    decisions.push({
+      t,
+      pleasure,
+      dirtyTalk,
+      level: decision.level,
+      branch: decision.branch,
+      explanation: decision.explanation,
+    });
+    playingUntil = decision.level !== null ? t + durations[decision.level] : null;
+  };
+
+  const heartbeat = (t: number) => {
+    const intensity = cycleIntensity(intensitySum, intensityCount);
+    pleasure = nextPleasure(pleasure, motionInCycle, sensitivity, rules, intensity);
+    heartbeats.push({ t, pleasure, motion: motionInCycle, intensity });
+    motionInCycle = false;
+    intensitySum = 0;
+    intensityCount = 0;
+  };
+
+  // Handles heartbeats and clip ends that fall before `t`, in time order
+  const advanceTo = (t: number) => {
+    while (nextBeat <= t || (playingUntil !== null && playingUntil <= t)) {
+      if (playingUntil !== null && playingUntil < nextBeat) {
+        decide(playingUntil);
+      } else {
+        heartbeat(nextBeat);
+        nextBeat += rules.heartbeatMs;
+      }
+    }
+  };
+
+  recording.samples.forEach(sample => {
+    advanceTo(sample.t);
+    const processed = processor.process({ ...sample, timestamp: sample.t });
+    if (!processed.isMotion) return;
+    intensitySum += processed.intensity;
+    intensityCount++;
+    motionInCycle = true;
+    lastMotionTime = sample.t;
+    if (playingUntil === null) decide(sample.t);
+  });
+  advanceTo(recording.durationMs);
+
+  return {
+    heartbeats,
+    decisions,
+    summary: summarizeSession({ durationMs: recording.durationMs, heartbeats, decisions }),
+  };
+};
@@ -0,0 +1,248 @@
+import { describe, expect, it } from 'vitest';
+import type { AudioFile, LevelId, Scheme, SchemeRules } from '../types';
+import { LEVEL_IDS } from '../types';
+import {
+  advancePleasure,
+  cycleIntensity,
+  decideNext,
+  DEFAULT_RULES,
+  maxPleasure,
+  nextPleasure,
+  validateRules,
+} from './rules';
+import type { RuleState } from './rules';
+import { createEmptyLevels, updateLevelFiles } from './schemes';
+
+const NOW = 100000;
+
+const file = (id: string, patch: Partial<AudioFile> = {}): AudioFile => ({
+  id, name: `${id}.mp3`, url: `blob:${id}`, trimDb: 0, weight: 1, ...patch,
+});
+
+// One playable clip on every level, except the levels listed as empty
+const scheme = (empty: LevelId[] = [], rules: SchemeRules = DEFAULT_RULES): Scheme =>
+  LEVEL_IDS.reduce<Scheme>(
+    (result, level) => empty.includes(level) ? result : updateLevelFiles(result, level, () => [file(`clip-${level}`)]),
+    { id: 'scheme', name: 'Test', rules, levels: createEmptyLevels() },
+  );
+
+const state = (patch: Partial<RuleState>): RuleState => ({
+  pleasure: 10, dirtyTalk: 0, motionInCycle: true, lastMotionTime: NOW, ...patch,
+});
+
+describe('decideNext', () => {
+  describe('rule 1: nothing plays', () => {
+    it('stops at pleasure 0', () => {
+      const decision = decideNext(state({ pleasure: 0 }), scheme(), NOW);
+      expect(decision).toMatchObject({ level: null, branch: '1', dirtyTalk: 0 });
+    });
+
+    it('stops without motion for a full heartbeat', () => {
+      const decision = decideNext(state({ motionInCycle: false, lastMotionTime: NOW - DEFAULT_RULES.heartbeatMs }), scheme(), NOW);
+      expect(decision).toMatchObject({ level: null, branch: '1' });
+    });
+
+    it('keeps playing on motion just inside the heartbeat', () => {
+      const decision = decideNext(state({ motionInCycle: false, lastMotionTime: NOW - DEFAULT_RULES.heartbeatMs + 1 }), scheme(), NOW);
+      expect(decision).toMatchObject({ level: 1, branch: '2' });
+    });
+
+    it('follows a custom heartbeat for the cutoff', () => {
+      const rules = { ...DEFAULT_RULES, heartbeatMs: 500 };
+      const motion = { motionInCycle: false, lastMotionTime: NOW - 500 };
+      expect(decideNext(state(motion), scheme([], rules), NOW).branch).toBe('1');
+      expect(decideNext(state({ ...motion, lastMotionTime: NOW - 499 }), scheme([], rules), NOW).branch).toBe('2');
+    });
+
+    it('keeps the dirty talk count', () => {
+      expect(decideNext(state({ pleasure: 0, dirtyTalk: 7 }), scheme(), NOW).dirtyTalk).toBe(7);
+    });
+  });
+
+  describe('rule 2: band 1', () => {
+    it.each([1, 20])('plays level 1 at pleasure %i', pleasure => {
+      expect(decideNext(state({ pleasure, dirtyTalk: 3 }), scheme(), NOW)).toMatchObject({ level: 1, branch: '2', dirtyTalk: 3 });
+    });
+  });
+
+  describe('rule 3: band 2', () => {
+    it('3a: plays level 2 and counts dirty talk up', () => {
+      expect(decideNext(state({ pleasure: 21, dirtyTalk: 14 }), scheme(), NOW)).toMatchObject({ level: 2, branch: '3a', dirtyTalk: 15 });
+    });
+
+    it('3b: bursts into level 5 at the threshold and resets', () => {
+      expect(decideNext(state({ pleasure: 60, dirtyTalk: 15 }), scheme(), NOW)).toMatchObject({ level: 5, branch: '3b', dirtyTalk: 0 });
+    });
+
+    it('3c: resets without playing when level 5 is empty', () => {
+      expect(decideNext(state({ pleasure: 40, dirtyTalk: 15 }), scheme([5]), NOW)).toMatchObject({ level: null, branch: '3c', dirtyTalk: 0 });
+    });
+  });
+
+  describe('rule 4: band 3', () => {
+    it('4a: plays level 3 and counts dirty talk up', () => {
+      expect(decideNext(state({ pleasure: 61, dirtyTalk: 0 }), scheme(), NOW)).toMatchObject({ level: 3, branch: '4a', dirtyTalk: 1 });
+    });
+
+    it('4b: bursts into level 5 at the threshold and resets', () => {
+      expect(decideNext(state({ pleasure: 90, dirtyTalk: 15 }), scheme(), NOW)).toMatchObject({ level: 5, branch: '4b', dirtyTalk: 0 });
+    });
+
+    it('4c: resets without playing when level 5 is empty', () => {
+      expect(decideNext(state({ pleasure: 75, dirtyTalk: 20 }), scheme([5]), NOW)).toMatchObject({ level: null, branch: '4c', dirtyTalk: 0 });
+    });
+  });
+
+  describe('rule 5: band 4', () => {
+    it.each([91, 100])('plays level 4 at pleasure %i', pleasure => {
+      expect(decideNext(state({ pleasure, dirtyTalk: 15 }), scheme(), NOW)).toMatchObject({ level: 4, branch: '5', dirtyTalk: 15 });
+    });
+  });
+
+  describe('empty levels', () => {
+    it.each([
+      [1, 10, '2'],
+      [2, 40, '3a'],
+      [3, 75, '4a'],
+      [4, 95, '5'],
+    ] as const)('plays nothing when level %i is empty', (level, pleasure, branch) => {
+      const decision = decideNext(state({ pleasure }), scheme([level]), NOW);
+      expect(decision).toMatchObject({ level: null, branch });
+      expect(decision.explanation).toContain(`level ${level} is empty`);
+    });
+
+    it('still counts dirty talk when the level is empty', () => {
+      expect(decideNext(state({ pleasure: 40, dirtyTalk: 2 }), scheme([2]), NOW).dirtyTalk).toBe(3);
+    });
+
+    it('treats a level with only undecodable files as empty', () => {
+      const broken = updateLevelFiles(scheme(), 1, () => [file('broken', { error: 'EncodingError: bad data' })]);
+      expect(decideNext(state({ pleasure: 10 }), broken, NOW).level).toBeNull();
+    });
+
+    it('plays nothing when level 5 is empty, whichever band bursts', () => {
+      const empty = scheme([5]);
+      expect(decideNext(state({ pleasure: 30, dirtyTalk: 15 }), empty, NOW).level).toBeNull();
+      expect(decideNext(state({ pleasure: 80, dirtyTalk: 15 }), empty, NOW).level).toBeNull();
+    });
+  });
+
+  describe('configurable bands', () => {
+    const rules: SchemeRules = {
+      ...DEFAULT_RULES,
+      bands: { 1: { min: 1, max: 5 }, 2: { min: 6, max: 10 }, 3: { min: 11, max: 15 }, 4: { min: 16, max: 30 } },
+      burstThreshold: 2,
+    };
+
+    it.each([
+      [5, 1, '2'],
+      [6, 2, '3a'],
+      [15, 3, '4a'],
+      [30, 4, '5'],
+    ] as const)('maps pleasure %i to level %i', (pleasure, level, branch) => {
+      expect(decideNext(state({ pleasure }), scheme([], rules), NOW)).toMatchObject({ level, branch });
+    });
+
+    it('bursts at the scheme\'s own threshold', () => {
+      expect(decideNext(state({ pleasure: 8, dirtyTalk: 2 }), scheme([], rules), NOW)).toMatchObject({ level: 5, branch: '3b' });
+    });
+
+    it('uses the top of band 4 as the maximum', () => {
+      expect(maxPleasure(rules)).toBe(30);
+    });
+  });
+});
+
+describe('nextPleasure', () => {
+  it('rises by rise rate × sensitivity with motion', () => {
+    expect(nextPleasure(10, true, 3, DEFAULT_RULES)).toBe(13);
+    expect(nextPleasure(10, true, 2, { ...DEFAULT_RULES, riseRate: 2.5 })).toBe(15);
+  });
+
+  it('decays without motion, never below 0', () => {
+    expect(nextPleasure(10, false, 3, DEFAULT_RULES)).toBe(5);
+    expect(nextPleasure(3, false, 3, DEFAULT_RULES)).toBe(0);
+  });
+
+  it('stops at the top of band 4', () => {
+    expect(nextPleasure(99, true, 5, DEFAULT_RULES)).toBe(100);
+  });
+
+  it('scales the rise by intensity, rounded', () => {
+    expect(nextPleasure(10, true, 3, DEFAULT_RULES, 2)).toBe(16);
+    expect(nextPleasure(10, true, 3, DEFAULT_RULES, 0.5)).toBe(12);
+  });
+
+  it('always rises by at least 1 with motion', () => {
+    expect(nextPleasure(10, true, 1, DEFAULT_RULES, 0.25)).toBe(11);
+  });
+
+  it('ignores intensity without motion', () => {
+    expect(nextPleasure(10, false, 3, DEFAULT_RULES, 2)).toBe(5);
+  });
+});
+
+describe('advancePleasure', () => {
+  it('matches nextPleasure for a single beat', () => {
+    expect(advancePleasure(10, 1, true, 3, DEFAULT_RULES, 1.5)).toBe(nextPleasure(10, true, 3, DEFAULT_RULES, 1.5));
+  });
+
+  it('does nothing for zero beats', () => {
+    expect(advancePleasure(42, 0, true, 3, DEFAULT_RULES)).toBe(42);
+  });
+
+  it('counts motion for the first beat only, then decays', () => {
+    // +3, then -5 -5
+    expect(advancePleasure(50, 3, true, 3, DEFAULT_RULES)).toBe(43);
+  });
+
+  it('decays for every beat without motion', () => {
+    expect(advancePleasure(50, 4, false, 3, DEFAULT_RULES)).toBe(30);
+    expect(advancePleasure(50, 20, false, 3, DEFAULT_RULES)).toBe(0);
+  });
+});
+
+describe('cycleIntensity', () => {
+  it('is 0 without motion', () => {
+    expect(cycleIntensity(0, 0)).toBe(0);
+  });
+
+  it('averages and clamps to 0.25 - 2', () => {
+    expect(cycleIntensity(3, 2)).toBe(1.5);
+    expect(cycleIntensity(0.1, 1)).toBe(0.25);
+    expect(cycleIntensity(30, 3)).toBe(2);
+  });
+});
+
+describe('validateRules', () => {
+  const withBands = (bands: Partial<SchemeRules['bands']>): SchemeRules => ({
+    ...DEFAULT_RULES,
+    bands: { ...DEFAULT_RULES.bands, ...bands },
+  });
+
+  it('accepts the defaults', () => {
+    expect(validateRules(DEFAULT_RULES)).toEqual([]);
+  });
+
+  it('requires band 1 to start at 1', () => {
+    expect(validateRules(withBands({ 1: { min: 0, max: 20 } }))).toEqual([{ code: 'bandStart', level: 1 }]);
+  });
+
+  it('reports overlapping bands', () => {
+    expect(validateRules(withBands({ 2: { min: 21, max: 65 } }))).toEqual([{ code: 'bandOverlap', level: 2, next: 3 }]);
+  });
+
+  it('reports gaps between bands', () => {
+    expect(validateRules(withBands({ 3: { min: 61, max: 85 } }))).toEqual([{ code: 'bandGap', level: 3, next: 4 }]);
+  });
+
+  it('reports inverted and fractional bands', () => {
+    expect(validateRules(withBands({ 4: { min: 91, max: 90 } }))).toContainEqual({ code: 'bandInverted', level: 4 });
+    expect(validateRules(withBands({ 4: { min: 91, max: 99.5 } }))).toContainEqual({ code: 'bandNotInteger', level: 4 });
+  });
+
+  it('checks the threshold and rates', () => {
+    const errors = validateRules({ ...DEFAULT_RULES, burstThreshold: 0, riseRate: 0, decayRate: -1, heartbeatMs: 100 });
+    expect(errors.map(error => error.code)).toEqual(['burstThreshold', 'riseRate', 'decayRate', 'heartbeat']);
+  });
+});
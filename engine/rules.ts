@@ -0,0 +1,204 @@
+import type { LevelId, Scheme, SchemeRules } from '../types';
+import { playableFiles } from './schemes';
+
+// --- Playback Rules ---
+// Pure decision logic for "which level plays next". No refs, no React, no audio:
+// callers pass in a snapshot and apply the returned decision themselves.
+
+export const DEFAULT_RULES: SchemeRules = {
+  bands: {
+    1: { min: 1, max: 20 },
+    2: { min: 21, max: 60 },
+    3: { min: 61, max: 90 },
+    4: { min: 91, max: 100 },
+  },
+  burstThreshold: 15,
+  riseRate: 1,
+  decayRate: 5,
+  heartbeatMs: 2000,
+};
+
+export const BAND_LEVELS = [1, 2, 3, 4] as const;
+
+export type RuleState = {
+  pleasure: number; // 0 - max of band 4
+  dirtyTalk: number; // 0 - burstThreshold
+  motionInCycle: boolean; // Motion seen since the last heartbeat
+  lastMotionTime: number; // ms timestamp of the last motion above threshold
+};
+
+// Branch names follow the original rule numbering:
+// 1 = idle, 2 = band 1, 3a/3b/3c = band 2, 4a/4b/4c = band 3, 5 = band 4
+export type RuleBranch = '1' | '2' | '3a' | '3b' | '3c' | '4a' | '4b' | '4c' | '5';
+
+export type Decision = {
+  level: LevelId | null; // Level to play from, null when nothing should play
+  dirtyTalk: number; // Updated counter
+  branch: RuleBranch;
+  explanation: string;
+};
+
+export const maxPleasure = (rules: SchemeRules) => rules.bands[4].max;
+
+// Pleasure after one heartbeat. `intensity` scales the rise (1 = the flat sensitivity step);
+// steps are rounded so pleasure stays on whole numbers.
+export const nextPleasure = (
+  pleasure: number,
+  motion: boolean,
+  sensitivity: number,
+  rules: SchemeRules,
+  intensity = 1,
+) =>
+  motion
+    ? Math.min(pleasure + Math.max(1, Math.round(rules.riseRate * sensitivity * intensity)), maxPleasure(rules))
+    : Math.max(pleasure - Math.round(rules.decayRate), 0);
+
+// Pleasure after `beats` heartbeats elapsed at once (e.g. after the timer was throttled
+// in the background). Motion seen meanwhile counts for the first beat; the rest are idle.
+export const advancePleasure = (
+  pleasure: number,
+  beats: number,
+  motion: boolean,
+  sensitivity: number,
+  rules: SchemeRules,
+  intensity = 1,
+) => {
+  let next = pleasure;
+  for (let i = 0; i < beats; i++) {
+    next = nextPleasure(next, motion && i === 0, sensitivity, rules, intensity);
+  }
+  return next;
+};
+
+// Average intensity of the motion seen during one heartbeat, clamped so a faint
+// twitch still counts and a frantic burst can't more than double the rise.
+export const cycleIntensity = (sum: number, count: number) =>
+  count > 0 ? Math.min(Math.max(sum / count, 0.25), 2) : 0;
+
+export type RuleErrorCode =
+  | 'bandNotInteger'
+  | 'bandInverted'
+  | 'bandStart'
+  | 'bandOverlap'
+  | 'bandGap'
+  | 'burstThreshold'
+  | 'riseRate'
+  | 'decayRate'
+  | 'heartbeat';
+
+// `level` / `next` identify the band(s) involved; the UI turns codes into messages.
+export type RuleError = {
+  code: RuleErrorCode;
+  level?: number;
+  next?: number;
+};
+
+// An empty list means the rules are usable.
+export const validateRules = (rules: SchemeRules): RuleError[] => {
+  const errors: RuleError[] = [];
+  const { bands } = rules;
+
+  BAND_LEVELS.forEach(level => {
+    const { min, max } = bands[level];
+    if (!Number.isInteger(min) || !Number.isInteger(max)) {
+      errors.push({ code: 'bandNotInteger', level });
+    } else if (min > max) {
+      errors.push({ code: 'bandInverted', level });
+    }
+  });
+  if (bands[1].min !== 1) {
+    errors.push({ code: 'bandStart', level: 1 });
+  }
+  ([1, 2, 3] as const).forEach(level => {
+    const next = (level + 1) as 2 | 3 | 4;
+    const expected = bands[level].max + 1;
+    if (bands[next].min < expected) {
+      errors.push({ code: 'bandOverlap', level, next });
+    } else if (bands[next].min > expected) {
+      errors.push({ code: 'bandGap', level, next });
+    }
+  });
+
+  if (!Number.isInteger(rules.burstThreshold) || rules.burstThreshold < 1) {
+    errors.push({ code: 'burstThreshold' });
+  }
+  if (!(rules.riseRate > 0)) {
+    errors.push({ code: 'riseRate' });
+  }
+  if (!(rules.decayRate >= 0)) {
+    errors.push({ code: 'decayRate' });
+  }
+  if (!(rules.heartbeatMs >= 250)) {
+    errors.push({ code: 'heartbeat' });
+  }
+  return errors;
+};
+
+const bandLabel = (rules: SchemeRules, level: 1 | 2 | 3 | 4) =>
+  `${rules.bands[level].min}-${rules.bands[level].max}`;
+
+const hasFiles = (scheme: Scheme, level: LevelId) => playableFiles(scheme, level).length > 0;
+
+const playLevel = (
+  scheme: Scheme,
+  level: LevelId,
+  dirtyTalk: number,
+  branch: RuleBranch,
+  reason: string,
+): Decision => {
+  if (hasFiles(scheme, level)) {
+    return { level, dirtyTalk, branch, explanation: `${reason} -> level ${level}` };
+  }
+  return { level: null, dirtyTalk, branch, explanation: `${reason} -> level ${level} is empty` };
+};
+
+// Shared by bands 2 and 3: count up, or burst into level 5 at the threshold.
+const countOrBurst = (
+  state: RuleState,
+  scheme: Scheme,
+  level: LevelId,
+  countBranch: RuleBranch,
+  burstBranch: RuleBranch,
+  skipBranch: RuleBranch,
+  band: string,
+): Decision => {
+  const threshold = scheme.rules.burstThreshold;
+  if (state.dirtyTalk < threshold) {
+    return playLevel(scheme, level, state.dirtyTalk + 1, countBranch, `pleasure ${band}, dirty talk ${state.dirtyTalk} < ${threshold}`);
+  }
+  if (hasFiles(scheme, 5)) {
+    return { level: 5, dirtyTalk: 0, branch: burstBranch, explanation: `pleasure ${band}, dirty talk full -> level 5 burst` };
+  }
+  return { level: null, dirtyTalk: 0, branch: skipBranch, explanation: `pleasure ${band}, dirty talk full but level 5 is empty -> reset` };
+};
+
+export const decideNext = (state: RuleState, scheme: Scheme, now: number): Decision => {
+  const { rules } = scheme;
+  const p = state.pleasure;
+  const motionChange = state.motionInCycle || (now - state.lastMotionTime < rules.heartbeatMs);
+
+  // Rule 1: Pleasure 0 OR No motion within one heartbeat -> Don't play
+  if (p === 0 || !motionChange) {
+    return {
+      level: null,
+      dirtyTalk: state.dirtyTalk,
+      branch: '1',
+      explanation: p === 0 ? 'pleasure is 0' : `no motion in the last ${rules.heartbeatMs}ms`,
+    };
+  }
+
+  // Rule 2: Band 1
+  if (p <= rules.bands[1].max) {
+    return playLevel(scheme, 1, state.dirtyTalk, '2', `pleasure ${bandLabel(rules, 1)}`);
+  }
+  // Rule 3: Band 2
+  if (p <= rules.bands[2].max) {
+    return countOrBurst(state, scheme, 2, '3a', '3b', '3c', bandLabel(rules, 2));
+  }
+  // Rule 4: Band 3
+  if (p <= rules.bands[3].max) {
+    return countOrBurst(state, scheme, 3, '4a', '4b', '4c', bandLabel(rules, 3));
+  }
+  // Rule 5: Band 4
+  return playLevel(scheme, 4, state.dirtyTalk, '5', `pleasure ${bandLabel(rules, 4)}`);
+};
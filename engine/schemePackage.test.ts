@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import type { AudioFile, Scheme } from '../types';
+import { LEVEL_IDS } from '../types';
+import { createZip } from './archive';
+import { DEFAULT_RULES } from './rules';
+import { exportSchemePackage, readSchemePackage, SchemePackageError } from './schemePackage';
+import type { SchemePackageErrorCode } from './schemePackage';
+import { createEmptyLevels, DEFAULT_HAPTICS, DEFAULT_SELECTION } from './schemes';
+
+const encoder = new TextEncoder();
+
+// Audio bytes are just the id, served through a data URL so export can fetch them
+const file = (id: string, patch: Partial<AudioFile> = {}): AudioFile => ({
+  id, name: `${id}.mp3`, url: `data:audio/mpeg;base64,${btoa(id)}`, trimDb: 0, weight: 1, ...patch,
+});
+
+const text = async (blob: Blob) => new TextDecoder().decode(await blob.arrayBuffer());
+
+const SCHEME: Scheme = (() => {
+  const levels = createEmptyLevels();
+  return {
+    id: 'scheme',
+    name: ' Evening ',
+    rules: { ...DEFAULT_RULES, burstThreshold: 8, riseRate: 2 },
+    levels: {
+      ...levels,
+      2: {
+        ...levels[2],
+        files: [file('soft', { loudness: -18, normalizationDb: -5, trimDb: 2 }), file('softer', { weight: 3 })],
+        selection: { mode: 'weighted', cooldownMs: 4000 },
+      },
+      3: { ...levels[3], ambient: file('rain'), haptics: { enabled: false, pulseMs: 50, gapMs: 50 } },
+      4: { ...levels[4], files: [file('loud')] },
+    },
+  };
+})();
+
+const manifestOf = (levels: Record<number, unknown>, patch: object = {}) => ({
+  format: 'joysound-scheme',
+  version: 4,
+  exportedAt: '2026-01-01T00:00:00.000Z',
+  scheme: { name: 'Package', levels },
+  ...patch,
+});
+
+const emptyLevels = () => Object.fromEntries(LEVEL_IDS.map(level => [level, { files: [] }]));
+
+const zip = (manifest: unknown, audio: Record<string, string> = {}) => createZip([
+  { path: 'manifest.json', data: encoder.encode(typeof manifest === 'string' ? manifest : JSON.stringify(manifest)) },
+  ...Object.entries(audio).map(([path, data]) => ({ path, data: encoder.encode(data) })),
+]);
+
+const errorCode = (blob: Blob) => readSchemePackage(blob).then(
+  () => null,
+  (error: SchemePackageError) => ({ code: error.code, detail: error.detail }),
+);
+
+describe('scheme packages', () => {
+  it('round-trips files and ambient tracks onto their levels', async () => {
+    const preview = await readSchemePackage(await exportSchemePackage(SCHEME));
+
+    expect(preview.name).toBe('Evening');
+    expect(preview.rules).toEqual(SCHEME.rules);
+    expect(preview.levels[1]).toEqual([]);
+    expect(preview.levels[2].map(({ name, loudness, normalizationDb, trimDb, weight }) => ({ name, loudness, normalizationDb, trimDb, weight })))
+      .toEqual([
+        { name: 'soft.mp3', loudness: -18, normalizationDb: -5, trimDb: 2, weight: 1 },
+        { name: 'softer.mp3', loudness: undefined, normalizationDb: undefined, trimDb: 0, weight: 3 },
+      ]);
+    expect(await Promise.all(preview.levels[2].map(f => text(f.blob)))).toEqual(['soft', 'softer']);
+    expect(preview.levels[4].map(f => f.name)).toEqual(['loud.mp3']);
+    expect(preview.levels[4][0].blob.type).toBe('audio/mpeg');
+
+    const rain = preview.ambient[3];
+    expect(rain?.name).toBe('rain.mp3');
+    expect(rain && await text(rain.blob)).toBe('rain');
+    expect(LEVEL_IDS.filter(level => preview.ambient[level])).toEqual([3]);
+
+    expect(preview.selection[2]).toEqual({ mode: 'weighted', cooldownMs: 4000 });
+    expect(preview.selection[1]).toEqual(DEFAULT_SELECTION);
+    expect(preview.haptics[3]).toEqual({ enabled: false, pulseMs: 50, gapMs: 50 });
+    expect(preview.haptics[4]).toEqual(DEFAULT_HAPTICS[4]);
+  });
+
+  it('fills in defaults for older packages', async () => {
+    const levels = { ...emptyLevels(), 1: { files: [{ name: 'a.mp3', path: 'audio/1/a.mp3', type: 'audio/mpeg' }] } };
+    const preview = await readSchemePackage(zip(manifestOf(levels, { version: 1 }), { 'audio/1/a.mp3': 'a' }));
+    expect(preview.rules).toEqual(DEFAULT_RULES);
+    expect(preview.levels[1][0]).toMatchObject({ name: 'a.mp3', trimDb: 0, weight: 1 });
+    expect(preview.ambient[1]).toBeNull();
+    expect(preview.haptics[1]).toEqual(DEFAULT_HAPTICS[1]);
+  });
+
+  it('falls back to the default rules when the packaged ones are invalid', async () => {
+    const manifest = manifestOf(emptyLevels());
+    const preview = await readSchemePackage(zip({ ...manifest, scheme: { ...manifest.scheme, rules: { riseRate: -1 } } }));
+    expect(preview.rules).toEqual(DEFAULT_RULES);
+  });
+
+  it.each<[string, () => Blob, SchemePackageErrorCode, string?]>([
+    ['not a ZIP', () => new Blob(['hello']), 'unreadable'],
+    ['no manifest', () => createZip([{ path: 'audio/1/a.mp3', data: encoder.encode('a') }]), 'missingManifest'],
+    ['a manifest that is not JSON', () => zip('{ nope'), 'invalidManifest'],
+    ['another format', () => zip(manifestOf(emptyLevels(), { format: 'other' })), 'notPackage'],
+    ['a newer version', () => zip(manifestOf(emptyLevels(), { version: 99 })), 'tooNew'],
+    ['no scheme', () => zip(manifestOf(emptyLevels(), { scheme: undefined })), 'incomplete'],
+    ['a broken level', () => zip(manifestOf({ ...emptyLevels(), 3: { files: [{ name: 'a.mp3' }] } })), 'invalidLevel', '3'],
+    ['a missing level', () => zip(manifestOf({ ...emptyLevels(), 5: undefined })), 'invalidLevel', '5'],
+    [
+      'a file missing from the archive',
+      () => zip(manifestOf({ ...emptyLevels(), 2: { files: [{ name: 'gone.mp3', path: 'audio/2/gone.mp3', type: '' }] } })),
+      'missingAudio',
+      'gone.mp3',
+    ],
+    [
+      'an ambient track missing from the archive',
+      () => zip(manifestOf({ ...emptyLevels(), 4: { files: [], ambient: { name: 'hum.mp3', path: 'audio/4/hum.mp3', type: '' } } })),
+      'missingAudio',
+      'hum.mp3',
+    ],
+  ])('rejects %s', async (_, build, code, detail) => {
+    expect(await errorCode(build())).toEqual({ code, detail });
+  });
+});
@@ -0,0 +1,269 @@
+import type { AudioFile, HapticPattern, LevelId, LevelSelection, Scheme, SchemeRules } from '../types';
+import { LEVEL_IDS } from '../types';
+import { createZip, readZip } from './archive';
+import { DEFAULT_RULES, validateRules } from './rules';
+import { DEFAULT_HAPTICS, DEFAULT_SELECTION } from './schemes';
+import { createId, storeAudioBlob } from './storage';
+
+// --- Scheme Package Format ---
+// A package is a ZIP holding `manifest.json` plus one entry per clip (and ambient track) under `audio/<level>/`.
+
+const PACKAGE_FORMAT = 'joysound-scheme';
+const PACKAGE_VERSION = 4;
+const MANIFEST_PATH = 'manifest.json';
+export const PACKAGE_EXTENSION = '.joysound.zip';
+
+type ManifestFile = {
+  name: string;
+  path: string;
+  type: string;
+  loudness?: number;
+  normalizationDb?: number;
+  trimDb?: number;
+  weight?: number;
+};
+
+type PackageManifest = {
+  format: typeof PACKAGE_FORMAT;
+  version: number;
+  exportedAt: string;
+  scheme: {
+    name: string;
+    rules?: SchemeRules; // Added in v2
+    // haptics added in v3, ambient in v4
+    levels: Record<LevelId, { files: ManifestFile[]; selection?: LevelSelection; haptics?: HapticPattern; ambient?: ManifestFile }>;
+  };
+};
+
+export type PackagePreviewFile = {
+  name: string;
+  size: number;
+  blob: Blob;
+  loudness?: number;
+  normalizationDb?: number;
+  trimDb: number;
+  weight: number;
+};
+
+export type SchemePackagePreview = {
+  name: string;
+  rules: SchemeRules;
+  levels: Record<LevelId, PackagePreviewFile[]>;
+  selection: Record<LevelId, LevelSelection>;
+  haptics: Record<LevelId, HapticPattern>;
+  ambient: Record<LevelId, PackagePreviewFile | null>;
+};
+
+export type SchemePackageErrorCode =
+  | 'unreadable'
+  | 'missingManifest'
+  | 'invalidManifest'
+  | 'notPackage'
+  | 'tooNew'
+  | 'incomplete'
+  | 'invalidLevel'
+  | 'missingAudio';
+
+// `detail` carries the level or file name the problem is about, if any.
+export class SchemePackageError extends Error {
+  constructor(readonly code: SchemePackageErrorCode, readonly detail?: string) {
+    super(detail ? `${code}: ${detail}` : code);
+    this.name = 'SchemePackageError';
+  }
+}
+
+// --- Export ---
+
+export const exportSchemePackage = async (scheme: Scheme): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const entries: { path: string; data: Uint8Array }[] = [];
+  const levels = {} as PackageManifest['scheme']['levels'];
+
+  const addFile = async (file: AudioFile, path: string): Promise<ManifestFile> => {
+    const blob = await (await fetch(file.url)).blob();
+    entries.push({ path, data: new Uint8Array(await blob.arrayBuffer()) });
+    return {
+      name: file.name,
+      path,
+      type: blob.type,
+      loudness: file.loudness,
+      normalizationDb: file.normalizationDb,
+      trimDb: file.trimDb,
+      weight: file.weight,
+    };
+  };
+
+  for (const level of LEVEL_IDS) {
+    const { files: levelFiles, selection, haptics, ambient } = scheme.levels[level];
+    const files: ManifestFile[] = [];
+    for (let i = 0; i < levelFiles.length; i++) {
+      files.push(await addFile(levelFiles[i], `audio/${level}/${String(i + 1).padStart(3, '0')}-${levelFiles[i].name}`));
+    }
+    levels[level] = {
+      files,
+      selection,
+      haptics,
+      ambient: ambient ? await addFile(ambient, `audio/${level}/ambient-${ambient.name}`) : undefined,
+    };
+  }
+
+  const manifest: PackageManifest = {
+    format: PACKAGE_FORMAT,
+    version: PACKAGE_VERSION,
+    exportedAt: new Date().toISOString(),
+    scheme: { name: scheme.name, rules: scheme.rules, levels },
+  };
+  entries.unshift({ path: MANIFEST_PATH, data: encoder.encode(JSON.stringify(manifest, null, 2)) });
+
+  return createZip(entries);
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// --- Import ---
+
+const validateManifest = (raw: any): PackageManifest => {
+  if (!raw || raw.format !== PACKAGE_FORMAT) {
+    throw new SchemePackageError('notPackage');
+  }
+  if (typeof raw.version !== 'number' || raw.version > PACKAGE_VERSION) {
+    throw new SchemePackageError('tooNew');
+  }
+  if (!raw.scheme || typeof raw.scheme.name !== 'string' || !raw.scheme.levels) {
+    throw new SchemePackageError('incomplete');
+  }
+  LEVEL_IDS.forEach(level => {
+    const files = raw.scheme.levels[level]?.files;
+    if (!Array.isArray(files) || files.some((f: any) => typeof f?.name !== 'string' || typeof f?.path !== 'string')) {
+      throw new SchemePackageError('invalidLevel', String(level));
+    }
+  });
+  return raw as PackageManifest;
+};
+
+// Packages from v1, or with rules this version can't use, fall back to the defaults.
+const readRules = (raw: unknown): SchemeRules => {
+  if (!raw || typeof raw !== 'object') return DEFAULT_RULES;
+  const rules = { ...DEFAULT_RULES, ...raw } as SchemeRules;
+  try {
+    return validateRules(rules).length === 0 ? rules : DEFAULT_RULES;
+  } catch {
+    return DEFAULT_RULES;
+  }
+};
+
+export const readSchemePackage = async (file: Blob): Promise<SchemePackagePreview> => {
+  let entries: Map<string, Uint8Array>;
+  try {
+    entries = await readZip(file);
+  } catch (error) {
+    throw new SchemePackageError('unreadable');
+  }
+
+  const manifestData = entries.get(MANIFEST_PATH);
+  if (!manifestData) {
+    throw new SchemePackageError('missingManifest');
+  }
+  let rawManifest: unknown;
+  try {
+    rawManifest = JSON.parse(new TextDecoder().decode(manifestData));
+  } catch {
+    throw new SchemePackageError('invalidManifest');
+  }
+  const manifest = validateManifest(rawManifest);
+
+  const readFile = (f: ManifestFile): PackagePreviewFile => {
+    const data = entries.get(f.path);
+    if (!data) {
+      throw new SchemePackageError('missingAudio', f.name);
+    }
+    return {
+      name: f.name,
+      size: data.length,
+      blob: new Blob([data], { type: f.type || '' }),
+      loudness: typeof f.loudness === 'number' ? f.loudness : undefined,
+      normalizationDb: typeof f.normalizationDb === 'number' ? f.normalizationDb : undefined,
+      trimDb: typeof f.trimDb === 'number' ? f.trimDb : 0,
+      weight: typeof f.weight === 'number' ? f.weight : 1,
+    };
+  };
+
+  const levels = {} as SchemePackagePreview['levels'];
+  const ambient = {} as SchemePackagePreview['ambient'];
+  LEVEL_IDS.forEach(level => {
+    levels[level] = manifest.scheme.levels[level].files.map(readFile);
+    // Older packages have no ambient tracks
+    const rawAmbient = manifest.scheme.levels[level].ambient;
+    ambient[level] = rawAmbient && typeof rawAmbient.path === 'string' ? readFile(rawAmbient) : null;
+  });
+
+  const selection = {} as SchemePackagePreview['selection'];
+  LEVEL_IDS.forEach(level => {
+    const raw = manifest.scheme.levels[level].selection;
+    const valid = raw && ['random', 'shuffle', 'weighted'].includes(raw.mode) && raw.cooldownMs >= 0;
+    selection[level] = valid ? { mode: raw.mode, cooldownMs: raw.cooldownMs } : DEFAULT_SELECTION;
+  });
+
+  // Older packages have no vibration patterns
+  const haptics = {} as SchemePackagePreview['haptics'];
+  LEVEL_IDS.forEach(level => {
+    const raw = manifest.scheme.levels[level].haptics;
+    const valid = raw && typeof raw.enabled === 'boolean' && raw.pulseMs > 0 && raw.gapMs >= 0;
+    haptics[level] = valid ? { enabled: raw.enabled, pulseMs: raw.pulseMs, gapMs: raw.gapMs } : DEFAULT_HAPTICS[level];
+  });
+
+  // An empty name is left for the UI to fill in
+  return { name: manifest.scheme.name.trim(), rules: readRules(manifest.scheme.rules), levels, selection, haptics, ambient };
+};
+
+// Picks "name (2)", "name (3)"… until the name is free.
+export const resolveSchemeName = (name: string, existingNames: string[]) => {
+  if (!existingNames.includes(name)) return name;
+  let n = 2;
+  while (existingNames.includes(`${name} (${n})`)) n++;
+  return `${name} (${n})`;
+};
+
+// Stores the package audio and builds a scheme from it.
+export const createSchemeFromPackage = async (
+  preview: SchemePackagePreview,
+  name: string,
+  id = `scheme-${Date.now()}`,
+): Promise<Scheme> => {
+  const storeFile = async (f: PackagePreviewFile): Promise<AudioFile> => {
+    const fileId = createId('audio');
+    await storeAudioBlob(fileId, f.blob);
+    return {
+      id: fileId,
+      name: f.name,
+      url: URL.createObjectURL(f.blob),
+      loudness: f.loudness,
+      normalizationDb: f.normalizationDb,
+      trimDb: f.trimDb,
+      weight: f.weight,
+    };
+  };
+
+  const levels = {} as Scheme['levels'];
+  for (const level of LEVEL_IDS) {
+    const files: AudioFile[] = [];
+    for (const f of preview.levels[level]) {
+      files.push(await storeFile(f));
+    }
+    const ambientFile = preview.ambient[level];
+    levels[level] = {
+      files,
+      selection: preview.selection[level],
+      haptics: preview.haptics[level],
+      ambient: ambientFile && await storeFile(ambientFile),
+    };
+  }
+  return { id, name, rules: preview.rules, levels };
+};
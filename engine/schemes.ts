@@ -0,0 +1,93 @@
+import type { AudioFile, HapticPattern, LevelId, LevelSelection, Scheme } from '../types';
+import { LEVEL_IDS } from '../types';
+import { isPlayable } from './audioAnalysis';
+
+// --- Scheme Helpers ---
+
+export const DEFAULT_SELECTION: LevelSelection = { mode: 'shuffle', cooldownMs: 0 };
+
+// Slow and light at level 1, up to long, rapid pulses for the level 5 burst
+export const DEFAULT_HAPTICS: Record<LevelId, HapticPattern> = {
+  1: { enabled: true, pulseMs: 60, gapMs: 900 },
+  2: { enabled: true, pulseMs: 100, gapMs: 600 },
+  3: { enabled: true, pulseMs: 160, gapMs: 350 },
+  4: { enabled: true, pulseMs: 240, gapMs: 200 },
+  5: { enabled: true, pulseMs: 400, gapMs: 80 },
+};
+
+export const createEmptyLevels = (): Scheme['levels'] => ({
+  1: { files: [], selection: DEFAULT_SELECTION, haptics: DEFAULT_HAPTICS[1], ambient: null },
+  2: { files: [], selection: DEFAULT_SELECTION, haptics: DEFAULT_HAPTICS[2], ambient: null },
+  3: { files: [], selection: DEFAULT_SELECTION, haptics: DEFAULT_HAPTICS[3], ambient: null },
+  4: { files: [], selection: DEFAULT_SELECTION, haptics: DEFAULT_HAPTICS[4], ambient: null },
+  5: { files: [], selection: DEFAULT_SELECTION, haptics: DEFAULT_HAPTICS[5], ambient: null },
+});
+
+// Clips and ambient tracks alike
+export const schemeFiles = (scheme: Scheme): AudioFile[] =>
+  LEVEL_IDS.flatMap(level => {
+    const { files, ambient } = scheme.levels[level];
+    return ambient ? [...files, ambient] : files;
+  });
+
+// Files of a level that can actually be played (undecodable ones are skipped)
+export const playableFiles = (scheme: Scheme, level: LevelId): AudioFile[] =>
+  scheme.levels[level].files.filter(isPlayable);
+
+// Returns a copy of the scheme with `update` applied to every file, ambient tracks included.
+export const mapSchemeFiles = (scheme: Scheme, update: (file: AudioFile) => AudioFile): Scheme => {
+  const levels = { ...scheme.levels };
+  LEVEL_IDS.forEach(level => {
+    const { files, ambient } = levels[level];
+    levels[level] = { ...levels[level], files: files.map(update), ambient: ambient && update(ambient) };
+  });
+  return { ...scheme, levels };
+};
+
+export const patchSchemeFile = (scheme: Scheme, fileId: string, patch: Partial<AudioFile>): Scheme =>
+  mapSchemeFiles(scheme, file => file.id === fileId ? { ...file, ...patch } : file);
+
+// Returns a copy of the scheme with `update` applied to one level's file list.
+export const updateLevelFiles = (
+  scheme: Scheme,
+  level: LevelId,
+  update: (files: AudioFile[]) => AudioFile[],
+): Scheme => ({
+  ...scheme,
+  levels: { ...scheme.levels, [level]: { ...scheme.levels[level], files: update(scheme.levels[level].files) } },
+});
+
+export const setLevelAmbient = (scheme: Scheme, level: LevelId, ambient: AudioFile | null): Scheme => ({
+  ...scheme,
+  levels: { ...scheme.levels, [level]: { ...scheme.levels[level], ambient } },
+});
+
+export const findFileLevel = (scheme: Scheme, fileId: string): LevelId | null =>
+  LEVEL_IDS.find(level => scheme.levels[level].files.some(f => f.id === fileId)) ?? null;
+
+export const removeSchemeFile = (scheme: Scheme, fileId: string): Scheme => {
+  const level = findFileLevel(scheme, fileId);
+  return level === null ? scheme : updateLevelFiles(scheme, level, files => files.filter(f => f.id !== fileId));
+};
+
+export const reorderLevelFiles = (scheme: Scheme, level: LevelId, from: number, to: number): Scheme =>
+  updateLevelFiles(scheme, level, files => {
+    const next = [...files];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    return next;
+  });
+
+// Appends the file to the end of `toLevel`, removing it from its current level.
+export const moveSchemeFile = (scheme: Scheme, fileId: string, toLevel: LevelId): Scheme => {
+  const file = schemeFiles(scheme).find(f => f.id === fileId);
+  if (!file) return scheme;
+  return updateLevelFiles(removeSchemeFile(scheme, fileId), toLevel, files => [...files, file]);
+};
+
+// The copy gets `copyId`; its audio has to be stored under that id by the caller.
+export const copySchemeFile = (scheme: Scheme, fileId: string, toLevel: LevelId, copyId: string): Scheme => {
+  const file = schemeFiles(scheme).find(f => f.id === fileId);
+  if (!file) return scheme;
+  return updateLevelFiles(scheme, toLevel, files => [...files, { ...file, id: copyId }]);
+};
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import type { AudioFile, LevelSelection, Scheme } from '../types';
+import { DEFAULT_RULES } from './rules';
+import { createEmptyLevels } from './schemes';
+import { createClipSelector } from './selection';
+
+const file = (id: string, patch: Partial<AudioFile> = {}): AudioFile => ({
+  id, name: `${id}.mp3`, url: `blob:${id}`, trimDb: 0, weight: 1, ...patch,
+});
+
+// Level 1 holds the given files; every other level is empty
+const scheme = (files: AudioFile[], selection: LevelSelection): Scheme => {
+  const levels = createEmptyLevels();
+  return { id: 'scheme', name: 'Test', rules: DEFAULT_RULES, levels: { ...levels, 1: { ...levels[1], files, selection } } };
+};
+
+// Replays the given rolls in order
+const rolls = (...values: number[]) => {
+  let index = 0;
+  return () => values[index++ % values.length];
+};
+
+const pickIds = (target: Scheme, count: number, random: () => number = Math.random) => {
+  const selector = createClipSelector(random);
+  return Array.from({ length: count }, (_, i) => selector.pick(target, 1, i * 1000)?.id);
+};
+
+describe('createClipSelector', () => {
+  describe('weighted', () => {
+    const weighted: LevelSelection = { mode: 'weighted', cooldownMs: 0 };
+
+    it('picks in proportion to the weights', () => {
+      const files = [file('a', { weight: 1 }), file('b', { weight: 3 })];
+      // Rolls land at 0.8 and 2 of a total weight of 4
+      expect(pickIds(scheme(files, weighted), 2, rolls(0.2, 0.5))).toEqual(['a', 'b']);
+    });
+
+    it('never picks a file of weight 0', () => {
+      const files = [file('a', { weight: 0 }), file('b', { weight: 1 })];
+      expect(pickIds(scheme(files, weighted), 3, rolls(0, 0.5, 0.99))).toEqual(['b', 'b', 'b']);
+    });
+
+    it('falls back to a uniform pick when every weight is 0', () => {
+      const files = [file('a', { weight: 0 }), file('b', { weight: 0 })];
+      expect(pickIds(scheme(files, weighted), 2, rolls(0.1, 0.9))).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('shuffle', () => {
+    const shuffle: LevelSelection = { mode: 'shuffle', cooldownMs: 0 };
+    const files = [file('a'), file('b'), file('c')];
+
+    it('plays every file once per round', () => {
+      const picks = pickIds(scheme(files, shuffle), 6);
+      expect(new Set(picks.slice(0, 3)).size).toBe(3);
+      expect(new Set(picks.slice(3)).size).toBe(3);
+    });
+
+    it('never repeats a file back to back, even across rounds', () => {
+      // The round ends on c, and the last roll would start the next one on c again
+      expect(pickIds(scheme(files, shuffle), 4, rolls(0, 0, 0, 0.99))).toEqual(['a', 'b', 'c', 'b']);
+      const picks = pickIds(scheme(files, shuffle), 30);
+      picks.slice(1).forEach((id, i) => expect(id).not.toBe(picks[i]));
+    });
+  });
+
+  describe('cooldown', () => {
+    it('skips files played within the cooldown', () => {
+      const files = [file('a'), file('b')];
+      const selector = createClipSelector(rolls(0));
+      const target = scheme(files, { mode: 'random', cooldownMs: 5000 });
+      expect(selector.pick(target, 1, 0)?.id).toBe('a');
+      expect(selector.pick(target, 1, 1000)?.id).toBe('b');
+    });
+
+    it('plays the file that waited longest when all are cooling down', () => {
+      const files = [file('a'), file('b')];
+      const selector = createClipSelector(rolls(0));
+      const target = scheme(files, { mode: 'random', cooldownMs: 60000 });
+      selector.pick(target, 1, 0);
+      selector.pick(target, 1, 1000);
+      expect(selector.pick(target, 1, 2000)?.id).toBe('a');
+    });
+  });
+
+  describe('edge cases', () => {
+    it.each(['random', 'shuffle', 'weighted'] as const)('repeats a single file in %s mode', mode => {
+      expect(pickIds(scheme([file('only')], { mode, cooldownMs: 5000 }), 3)).toEqual(['only', 'only', 'only']);
+    });
+
+    it('returns null for an empty level', () => {
+      expect(createClipSelector().pick(scheme([], { mode: 'shuffle', cooldownMs: 0 }), 1, 0)).toBeNull();
+    });
+
+    it('returns null when every file failed to decode', () => {
+      const broken = [file('broken', { error: 'EncodingError: bad data' })];
+      expect(createClipSelector().pick(scheme(broken, { mode: 'random', cooldownMs: 0 }), 1, 0)).toBeNull();
+    });
+
+    it('skips undecodable files', () => {
+      const files = [file('broken', { error: 'EncodingError: bad data' }), file('good')];
+      expect(pickIds(scheme(files, { mode: 'weighted', cooldownMs: 0 }), 2, rolls(0))).toEqual(['good', 'good']);
+    });
+  });
+});
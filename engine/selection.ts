@@ -0,0 +1,76 @@
+import type { AudioFile, LevelId, Scheme } from '../types';
+import { playableFiles } from './schemes';
+
+// --- Clip Selection ---
+// Picks which file of a level plays next. History is keyed by scheme and file id,
+// so switching schemes back and forth within a session keeps bags and cooldowns.
+
+export type ClipSelector = {
+  pick: (scheme: Scheme, level: LevelId, now: number) => AudioFile | null;
+};
+
+const pickUniform = <T>(items: T[], random: () => number) =>
+  items[Math.floor(random() * items.length)];
+
+const pickWeighted = (files: AudioFile[], random: () => number) => {
+  const total = files.reduce((sum, f) => sum + Math.max(f.weight, 0), 0);
+  if (total <= 0) return pickUniform(files, random);
+  let roll = random() * total;
+  for (const file of files) {
+    roll -= Math.max(file.weight, 0);
+    if (roll < 0) return file;
+  }
+  return files[files.length - 1];
+};
+
+export const createClipSelector = (random: () => number = Math.random): ClipSelector => {
+  const lastPlayed = new Map<string, number>(); // file id -> timestamp
+  const lastFileByLevel = new Map<string, string>(); // "scheme:level" -> file id
+  const bags = new Map<string, string[]>(); // "scheme:level" -> file ids left this round
+
+  const wasPlayedAt = (file: AudioFile) => lastPlayed.get(file.id) ?? -Infinity;
+
+  // Files outside their cooldown; if every file is cooling down, the one that waited longest
+  const available = (files: AudioFile[], cooldownMs: number, now: number) => {
+    const ready = files.filter(f => now - wasPlayedAt(f) >= cooldownMs);
+    if (ready.length > 0) return ready;
+    return [files.reduce((oldest, f) => wasPlayedAt(f) < wasPlayedAt(oldest) ? f : oldest)];
+  };
+
+  const pickFromBag = (key: string, files: AudioFile[], cooldownMs: number, now: number) => {
+    const ids = new Set(files.map(f => f.id));
+    let bag = (bags.get(key) ?? []).filter(id => ids.has(id));
+    if (bag.length === 0) bag = files.map(f => f.id);
+
+    let inBag = files.filter(f => bag.includes(f.id));
+    // No back-to-back repeat, even when a new round starts
+    const last = lastFileByLevel.get(key);
+    if (inBag.length > 1) inBag = inBag.filter(f => f.id !== last);
+
+    const choice = pickUniform(available(inBag, cooldownMs, now), random);
+    bags.set(key, bag.filter(id => id !== choice.id));
+    return choice;
+  };
+
+  const pick = (scheme: Scheme, level: LevelId, now: number) => {
+    const { selection } = scheme.levels[level];
+    const files = playableFiles(scheme, level);
+    if (files.length === 0) return null;
+
+    const key = `${scheme.id}:${level}`;
+    let choice: AudioFile;
+    if (selection.mode === 'shuffle') {
+      choice = pickFromBag(key, files, selection.cooldownMs, now);
+    } else if (selection.mode === 'weighted') {
+      choice = pickWeighted(available(files, selection.cooldownMs, now), random);
+    } else {
+      choice = pickUniform(available(files, selection.cooldownMs, now), random);
+    }
+
+    lastPlayed.set(choice.id, now);
+    lastFileByLevel.set(key, choice.id);
+    return choice;
+  };
+
+  return { pick };
+};
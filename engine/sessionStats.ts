@@ -0,0 +1,46 @@
+import type { LevelId } from '../types';
+import type { ClipEvent, SessionRecording } from './recorder';
+
+// --- Session Statistics ---
+// Works on live recordings, stored session logs and offline replays alike.
+
+export type SessionSummary = {
+  durationMs: number;
+  clipsPerLevel: Record<LevelId, number>;
+  bursts: number; // Level 5 triggered by a full dirty-talk counter
+  averagePleasure: number;
+  peakPleasure: number;
+};
+
+export type ClipPlayCount = {
+  fileId: string;
+  fileName: string;
+  level: LevelId;
+  count: number;
+};
+
+export const summarizeSession = (
+  { durationMs, heartbeats, decisions }: Pick<SessionRecording, 'durationMs' | 'heartbeats' | 'decisions'>,
+): SessionSummary => {
+  const clipsPerLevel = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 } as Record<LevelId, number>;
+  decisions.forEach(d => { if (d.level !== null) clipsPerLevel[d.level]++; });
+  const pleasures = heartbeats.map(h => h.pleasure);
+  return {
+    durationMs,
+    clipsPerLevel,
+    bursts: decisions.filter(d => d.branch === '3b' || d.branch === '4b').length,
+    averagePleasure: pleasures.length > 0 ? pleasures.reduce((a, b) => a + b, 0) / pleasures.length : 0,
+    peakPleasure: pleasures.length > 0 ? Math.max(...pleasures) : 0,
+  };
+};
+
+// Most played first
+export const countClipPlays = (clips: ClipEvent[]): ClipPlayCount[] => {
+  const counts = new Map<string, ClipPlayCount>();
+  clips.forEach(({ fileId, fileName, level }) => {
+    const entry = counts.get(fileId) ?? { fileId, fileName, level, count: 0 };
+    entry.count++;
+    counts.set(fileId, entry);
+  });
+  return [...counts.values()].sort((a, b) => b.count - a.count || a.level - b.level);
+};
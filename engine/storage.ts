@@ -0,0 +1,366 @@
+import type { AudioFile, LevelId, Scheme, SchemeLevel, SessionProgram } from '../types';
+import { LEVEL_IDS } from '../types';
+import type { Locale } from '../i18n';
+import type { LevelAssignmentRule } from './bulkImport';
+import type { Calibration } from './motionProcessing';
+import type { MotionSourceId } from './motionSources';
+import type { SessionRecording } from './recorder';
+import { DEFAULT_RULES } from './rules';
+import { DEFAULT_HAPTICS, DEFAULT_SELECTION, schemeFiles } from './schemes';
+
+// --- IndexedDB Layout ---
+
+const DB_NAME = 'joysound';
+const DB_VERSION = 3;
+const SCHEMES_STORE = 'schemes';
+const BLOBS_STORE = 'blobs';
+const SETTINGS_STORE = 'settings';
+const SETTINGS_KEY = 'app';
+const SESSIONS_STORE = 'sessions'; // v2
+const PROGRAMS_STORE = 'programs'; // v3
+const MAX_SESSION_LOGS = 50;
+const ORPHAN_GRACE_MS = 24 * 60 * 60 * 1000; // Unreferenced blobs younger than this may belong to another tab
+
+// Bump whenever the persisted Scheme shape changes and register a migration below.
+export const SCHEME_VERSION = 7;
+
+type StoredAudioFile = Omit<AudioFile, 'url'>;
+
+type StoredScheme = Omit<Scheme, 'levels'> & {
+  schemaVersion: number;
+  order: number;
+  levels: Record<LevelId, Omit<SchemeLevel, 'files' | 'ambient'> & { files: StoredAudioFile[]; ambient: StoredAudioFile | null }>;
+};
+
+type StoredProgram = SessionProgram & { order: number };
+
+type StoredBlob = {
+  id: string;
+  blob: Blob;
+  storedAt?: number; // Unset on blobs stored before it was recorded
+};
+
+// Each entry upgrades a raw record from version `n` to `n + 1`.
+const SCHEME_MIGRATIONS: Record<number, (raw: any) => any> = {
+  // v2: per-scheme rule settings
+  1: raw => ({ ...raw, rules: DEFAULT_RULES }),
+  // v3: per-file gain trim (loudness is re-analysed after load)
+  2: raw => ({
+    ...raw,
+    levels: Object.fromEntries(LEVEL_IDS.map(level => [level, {
+      ...raw.levels[level],
+      files: raw.levels[level].files.map((f: any) => ({ ...f, trimDb: 0 })),
+    }])),
+  }),
+  // v4: per-level selection mode and per-file weights
+  3: raw => ({
+    ...raw,
+    levels: Object.fromEntries(LEVEL_IDS.map(level => [level, {
+      ...raw.levels[level],
+      selection: DEFAULT_SELECTION,
+      files: raw.levels[level].files.map((f: any) => ({ ...f, weight: 1 })),
+    }])),
+  }),
+  // v5: per-level vibration patterns
+  4: raw => ({
+    ...raw,
+    levels: Object.fromEntries(LEVEL_IDS.map(level => [level, {
+      ...raw.levels[level],
+      haptics: DEFAULT_HAPTICS[level],
+    }])),
+  }),
+  // v6: optional ambient track per level
+  5: raw => ({
+    ...raw,
+    levels: Object.fromEntries(LEVEL_IDS.map(level => [level, { ...raw.levels[level], ambient: null }])),
+  }),
+  // v7: sample rates come from the file header; the stored ones were the decoder's 44.1 kHz.
+  // Dropping the duration too marks the file as unanalysed, so its header is read again.
+  6: raw => {
+    const dropRate = ({ sampleRate, durationMs, ...file }: StoredAudioFile): StoredAudioFile => file;
+    return {
+      ...raw,
+      levels: Object.fromEntries(LEVEL_IDS.map(level => [level, {
+        ...raw.levels[level],
+        files: raw.levels[level].files.map(dropRate),
+        ambient: raw.levels[level].ambient && dropRate(raw.levels[level].ambient),
+      }])),
+    };
+  },
+};
+
+export type PersistedSettings = {
+  activeSchemeId: string;
+  globalVolume: number;
+  foregroundVolume: number; // Clips, under the global volume
+  backgroundVolume: number; // Ambient tracks, under the global volume
+  sensitivity: number;
+  crossfadeMs: number;
+  motionSourceId: MotionSourceId;
+  calibrations: Partial<Record<MotionSourceId, Calibration>>;
+  importRules: LevelAssignmentRule[];
+  locale: Locale;
+  onboardingDone: boolean;
+  haptics: boolean;
+  activeProgramId: string | null; // Program the master switch starts, null = run freely
+  relayUrl: string; // Pairing relay, empty = the default next to the dev server
+  roomCode: string; // Pairing code both devices enter
+};
+
+// Past sessions keep everything but the raw motion samples, which would be too large
+export type SessionLog = Omit<SessionRecording, 'samples'> & { id: string };
+
+export type PersistedState = {
+  schemes: Scheme[];
+  programs: SessionProgram[];
+  settings: Partial<PersistedSettings> | null; // Older saves lack newer fields
+};
+
+// --- Low-level Helpers ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Ids of scheme records that failed to migrate on load; saving never touches them
+const unreadableSchemeIds = new Set<string>();
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SCHEMES_STORE)) {
+          db.createObjectStore(SCHEMES_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(BLOBS_STORE)) {
+          db.createObjectStore(BLOBS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(SETTINGS_STORE)) {
+          db.createObjectStore(SETTINGS_STORE);
+        }
+        if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+          db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(PROGRAMS_STORE)) {
+          db.createObjectStore(PROGRAMS_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const createId = (prefix: string) =>
+  `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// --- Scheme Migration ---
+
+const migrateScheme = (raw: any): StoredScheme => {
+  let record = raw;
+  let version: number = typeof record.schemaVersion === 'number' ? record.schemaVersion : 0;
+  while (version < SCHEME_VERSION) {
+    const migrate = SCHEME_MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No migration for scheme version ${version}`);
+    }
+    record = { ...migrate(record), schemaVersion: version + 1 };
+    version++;
+  }
+  return record as StoredScheme;
+};
+
+const toStoredScheme = (scheme: Scheme, order: number): StoredScheme => {
+  const levels = {} as StoredScheme['levels'];
+  const strip = ({ url, ...file }: AudioFile): StoredAudioFile => file;
+  LEVEL_IDS.forEach(level => {
+    const { files, ambient } = scheme.levels[level];
+    levels[level] = { ...scheme.levels[level], files: files.map(strip), ambient: ambient && strip(ambient) };
+  });
+  return { ...scheme, levels, schemaVersion: SCHEME_VERSION, order };
+};
+
+// Attaches fresh blob URLs; files whose blob has gone missing are dropped.
+const fromStoredScheme = (stored: StoredScheme, blobs: Map<string, Blob>): Scheme => {
+  const { schemaVersion, order, ...rest } = stored;
+  const levels = {} as Scheme['levels'];
+  const restore = (file: StoredAudioFile): AudioFile | null => {
+    const blob = blobs.get(file.id);
+    if (blob) return { ...file, url: URL.createObjectURL(blob) };
+    console.warn(`Audio blob missing for "${file.name}"`);
+    return null;
+  };
+  LEVEL_IDS.forEach(level => {
+    const { files, ambient } = stored.levels[level];
+    levels[level] = {
+      ...stored.levels[level],
+      files: files.map(restore).filter((file): file is AudioFile => file !== null),
+      ambient: ambient && restore(ambient),
+    };
+  });
+  return { ...rest, levels };
+};
+
+// --- Public API ---
+
+export const loadPersistedState = async (): Promise<PersistedState> => {
+  const db = await openDb();
+  const tx = db.transaction([SCHEMES_STORE, BLOBS_STORE, SETTINGS_STORE, PROGRAMS_STORE], 'readonly');
+  const [rawSchemes, rawBlobs, settings, rawPrograms] = await Promise.all([
+    promisify(tx.objectStore(SCHEMES_STORE).getAll()),
+    promisify(tx.objectStore(BLOBS_STORE).getAll() as IDBRequest<StoredBlob[]>),
+    promisify(tx.objectStore(SETTINGS_STORE).get(SETTINGS_KEY) as IDBRequest<Partial<PersistedSettings> | undefined>),
+    promisify(tx.objectStore(PROGRAMS_STORE).getAll() as IDBRequest<StoredProgram[]>),
+  ]);
+
+  // A record that can't be migrated is skipped instead of failing the whole load
+  const stored: StoredScheme[] = [];
+  rawSchemes.forEach(raw => {
+    try {
+      stored.push(migrateScheme(raw));
+    } catch (error) {
+      console.error(`Skipped unreadable scheme "${raw?.id}":`, error);
+      unreadableSchemeIds.add(raw?.id);
+    }
+  });
+  stored.sort((a, b) => a.order - b.order);
+  const blobs = new Map(rawBlobs.map(b => [b.id, b.blob]));
+
+  // Blobs of files that were imported but never saved into a scheme. Which blobs a skipped
+  // record uses isn't known, so nothing is deleted then. Recent ones are kept too: another
+  // open tab may have stored them and not saved its schemes yet.
+  const referenced = new Set(stored.flatMap(s => LEVEL_IDS.flatMap(l => {
+    const { files, ambient } = s.levels[l];
+    return [...files, ...(ambient ? [ambient] : [])].map(f => f.id);
+  })));
+  const cutoff = Date.now() - ORPHAN_GRACE_MS;
+  const orphans = rawBlobs.filter(b => !referenced.has(b.id) && (b.storedAt ?? 0) < cutoff).map(b => b.id);
+  if (orphans.length > 0 && unreadableSchemeIds.size === 0) {
+    deleteAudioBlobs(orphans).catch(console.error);
+  }
+
+  return {
+    schemes: stored.map(s => fromStoredScheme(s, blobs)),
+    programs: rawPrograms.sort((a, b) => a.order - b.order).map(({ order, ...program }) => program),
+    settings: settings ?? null,
+  };
+};
+
+// Replaces the saved schemes, except for records that couldn't be read: those stay as they are
+export const saveSchemes = async (schemes: Scheme[]) => {
+  const db = await openDb();
+  const tx = db.transaction(SCHEMES_STORE, 'readwrite');
+  const store = tx.objectStore(SCHEMES_STORE);
+  const ids = new Set(schemes.map(scheme => scheme.id));
+  const existing = await promisify(store.getAllKeys());
+  existing.forEach(key => {
+    if (!ids.has(key as string) && !unreadableSchemeIds.has(key as string)) store.delete(key);
+  });
+  schemes.forEach((scheme, i) => store.put(toStoredScheme(scheme, i)));
+  await transactionDone(tx);
+};
+
+export const savePrograms = async (programs: SessionProgram[]) => {
+  const db = await openDb();
+  const tx = db.transaction(PROGRAMS_STORE, 'readwrite');
+  const store = tx.objectStore(PROGRAMS_STORE);
+  store.clear();
+  programs.forEach((program, order) => store.put({ ...program, order } satisfies StoredProgram));
+  await transactionDone(tx);
+};
+
+export const saveSettings = async (settings: PersistedSettings) => {
+  const db = await openDb();
+  const tx = db.transaction(SETTINGS_STORE, 'readwrite');
+  tx.objectStore(SETTINGS_STORE).put(settings, SETTINGS_KEY);
+  await transactionDone(tx);
+};
+
+export const storeAudioBlob = async (id: string, blob: Blob) => {
+  const db = await openDb();
+  const tx = db.transaction(BLOBS_STORE, 'readwrite');
+  tx.objectStore(BLOBS_STORE).put({ id, blob, storedAt: Date.now() } satisfies StoredBlob);
+  await transactionDone(tx);
+};
+
+// Stores the audio of `fromId` again under `toId`, for copied files.
+export const copyAudioBlob = async (fromId: string, toId: string) => {
+  const db = await openDb();
+  const tx = db.transaction(BLOBS_STORE, 'readwrite');
+  const store = tx.objectStore(BLOBS_STORE);
+  const stored = await promisify(store.get(fromId) as IDBRequest<StoredBlob | undefined>);
+  if (!stored) throw new Error(`Audio blob ${fromId} not found`);
+  store.put({ id: toId, blob: stored.blob, storedAt: Date.now() } satisfies StoredBlob);
+  await transactionDone(tx);
+};
+
+export const deleteAudioBlobs = async (ids: string[]) => {
+  const db = await openDb();
+  const tx = db.transaction(BLOBS_STORE, 'readwrite');
+  const store = tx.objectStore(BLOBS_STORE);
+  ids.forEach(id => store.delete(id));
+  await transactionDone(tx);
+};
+
+// --- Session History ---
+
+// Newest first
+export const loadSessionLogs = async (): Promise<SessionLog[]> => {
+  const db = await openDb();
+  const tx = db.transaction(SESSIONS_STORE, 'readonly');
+  const logs = await promisify(tx.objectStore(SESSIONS_STORE).getAll() as IDBRequest<SessionLog[]>);
+  return logs.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+};
+
+// Stores the log and drops the oldest ones beyond the history limit.
+export const saveSessionLog = async (log: SessionLog) => {
+  const existing = await loadSessionLogs();
+  const db = await openDb();
+  const tx = db.transaction(SESSIONS_STORE, 'readwrite');
+  const store = tx.objectStore(SESSIONS_STORE);
+  store.put(log);
+  existing.slice(MAX_SESSION_LOGS - 1).forEach(old => store.delete(old.id));
+  await transactionDone(tx);
+};
+
+export const deleteSessionLog = async (id: string) => {
+  const db = await openDb();
+  const tx = db.transaction(SESSIONS_STORE, 'readwrite');
+  tx.objectStore(SESSIONS_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+// --- Blob URL Lifetime ---
+
+export const collectBlobUrls = (schemes: (Scheme | null)[]): Set<string> => {
+  const urls = new Set<string>();
+  schemes.forEach(scheme => {
+    if (!scheme) return;
+    schemeFiles(scheme).forEach(f => urls.add(f.url));
+  });
+  return urls;
+};
+
+// Revokes every URL that was live before but is no longer referenced.
+export const revokeStaleBlobUrls = (previous: Set<string>, current: Set<string>) => {
+  previous.forEach(url => {
+    if (!current.has(url)) URL.revokeObjectURL(url);
+  });
+};
@@ -0,0 +1,45 @@
+// --- Store ---
+// Minimal Redux-style container: one state value, changed only by dispatching actions
+// through a pure reducer. Framework-free; React subscribes through useSyncExternalStore.
+
+export type Store<S, A> = {
+  getState: () => S;
+  dispatch: (action: A) => void;
+  // Returns the unsubscribe function
+  subscribe: (listener: () => void) => () => void;
+};
+
+export const createStore = <S, A>(reducer: (state: S, action: A) => S, initialState: S): Store<S, A> => {
+  let state = initialState;
+  const listeners = new Set<() => void>();
+
+  return {
+    getState: () => state,
+    dispatch: action => {
+      const next = reducer(state, action);
+      if (next === state) return;
+      state = next;
+      listeners.forEach(listener => listener());
+    },
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+};
+
+// Calls `onChange` whenever the selected value changes (by reference), e.g. to persist a slice.
+export const watch = <S, A, T>(
+  store: Store<S, A>,
+  select: (state: S) => T,
+  onChange: (value: T, previous: T) => void,
+) => {
+  let previous = select(store.getState());
+  return store.subscribe(() => {
+    const value = select(store.getState());
+    if (value === previous) return;
+    const old = previous;
+    previous = value;
+    onChange(value, old);
+  });
+};
@@ -0,0 +1,53 @@
+// --- Screen Wake Lock ---
+// Keeps the screen on while enabled. Browsers drop the lock whenever the page is hidden,
+// so it's requested again each time the page becomes visible.
+
+export type WakeLockController = {
+  enable: () => void;
+  disable: () => void;
+};
+
+export const createWakeLockController = (): WakeLockController => {
+  let enabled = false;
+  let pending = false;
+  let sentinel: WakeLockSentinel | null = null;
+
+  const request = async () => {
+    if (!enabled || pending || sentinel || document.visibilityState !== 'visible') return;
+    if (!('wakeLock' in navigator)) return;
+    pending = true;
+    try {
+      const lock = await navigator.wakeLock.request('screen');
+      if (!enabled) {
+        lock.release();
+        return;
+      }
+      sentinel = lock;
+      lock.addEventListener('release', () => {
+        if (sentinel === lock) sentinel = null;
+      });
+    } catch (error) {
+      console.warn("Wake lock unavailable:", error);
+    } finally {
+      pending = false;
+    }
+  };
+
+  const handleVisibility = () => { request(); };
+
+  const enable = () => {
+    if (enabled) return;
+    enabled = true;
+    document.addEventListener('visibilitychange', handleVisibility);
+    request();
+  };
+
+  const disable = () => {
+    enabled = false;
+    document.removeEventListener('visibilitychange', handleVisibility);
+    sentinel?.release().catch(console.error);
+    sentinel = null;
+  };
+
+  return { enable, disable };
+};
@@ -0,0 +1,313 @@
+import type { Messages } from './zh-CN';
+
+// --- English ---
+
+export const en: Messages = {
+  languageName: 'English',
+
+  levelNames: {
+    1: 'Level 1: Gentle',
+    2: 'Level 2: Warm',
+    3: 'Level 3: Intense',
+    4: 'Level 4: Bliss',
+    5: 'Level 5: Burst',
+  },
+  levelBand: (min, max) => `pleasure ${min}-${max}`,
+  levelBurst: 'when dirty talk is full',
+
+  selectionModes: {
+    random: 'Random',
+    shuffle: 'Shuffle',
+    weighted: 'Weighted',
+  },
+
+  motionSources: {
+    devicemotion: 'Motion',
+    tap: 'Tap',
+    microphone: 'Mic',
+    script: 'Script',
+    remote: 'Remote',
+  },
+
+  schemeNames: {
+    default: 'Default scheme 1',
+    created: n => `New scheme ${n}`,
+    copy: name => `${name} copy`,
+    imported: 'Imported scheme',
+  },
+
+  ruleErrors: {
+    bandNotInteger: ({ level }) => `Level ${level} range must be whole numbers`,
+    bandInverted: ({ level }) => `Level ${level} starts above where it ends`,
+    bandStart: () => 'Level 1 must start at 1',
+    bandOverlap: ({ level, next }) => `Levels ${level} and ${next} overlap`,
+    bandGap: ({ level, next }) => `There is a gap between levels ${level} and ${next}`,
+    burstThreshold: () => 'Dirty talk threshold must be a whole number above 0',
+    riseRate: () => 'Rise rate must be above 0',
+    decayRate: () => 'Decay rate can\'t be negative',
+    heartbeat: () => 'Heartbeat can\'t be shorter than 0.25 s',
+  },
+
+  packageErrors: {
+    unreadable: () => 'Can\'t read the scheme file, it may be damaged',
+    missingManifest: () => 'The scheme file has no manifest.json',
+    invalidManifest: () => 'manifest.json is malformed',
+    notPackage: () => 'Not a scheme file',
+    tooNew: () => 'The scheme file is from a newer version, please update the app',
+    incomplete: () => 'The scheme file is missing required information',
+    invalidLevel: level => `The clip list of level ${level} is invalid`,
+    missingAudio: name => `Missing audio file: ${name}`,
+  },
+
+  toasts: {
+    keepOneScheme: 'At least one scheme has to stay',
+    schemeDeleted: name => `Deleted "${name}"`,
+    schemeSaved: name => `Saved "${name}"`,
+    schemeDuplicated: name => `Created "${name}"`,
+    schemeImported: name => `Imported "${name}"`,
+    filesImported: count => `Imported ${count} ${count === 1 ? 'clip' : 'clips'}`,
+    duplicateFailed: 'Couldn\'t duplicate the scheme',
+    noAudioFound: 'No audio files found',
+    dropFailed: 'Couldn\'t read the dropped files',
+    scriptFailed: 'Couldn\'t read the motion script',
+    recordingFailed: 'Couldn\'t read the session recording',
+    exportFailed: 'Export failed',
+    importFailed: 'Import failed',
+    loadFailed: 'Couldn\'t load your saved schemes. Nothing is saved until the app is reopened.',
+    playbackSkipped: name => `Couldn't play "${name}", skipped`,
+    programFinished: name => `"${name}" has finished`,
+    remoteInputFailed: 'This device\'s motion input isn\'t available, so it can\'t be the controller',
+  },
+
+  dialogs: {
+    discardChanges: 'Discard unsaved changes?',
+    discard: 'Discard',
+    clearLevel: level => `Remove all audio from "${level}"?`,
+    clear: 'Remove',
+    deleteSession: 'Delete this session?',
+    deleteProgram: name => `Delete the program "${name}"?`,
+  },
+
+  common: {
+    cancel: 'Cancel',
+    undo: 'Undo',
+    close: 'Close',
+    apply: 'Apply',
+    retry: 'Retry',
+    save: 'Save',
+    import: 'Import',
+    export: 'Export',
+    delete: 'Delete',
+    none: 'None',
+    seconds: 's',
+    milliseconds: 'ms',
+  },
+
+  editor: {
+    title: 'Edit scheme',
+    schemeName: 'Scheme name',
+    bulkTitle: 'Bulk import',
+    bulkHint: 'Drop files or folders; levels are assigned by folder or file name (e.g. L3_*.mp3)',
+    pickFolder: 'Choose folder',
+    pickFiles: 'Choose files',
+    rules: 'Trigger rules',
+    bands: 'Pleasure ranges',
+    burstThreshold: 'Dirty talk threshold',
+    heartbeat: 'Heartbeat (s)',
+    riseRate: 'Rise rate (× sensitivity)',
+    decayRate: 'Decay rate',
+    cooldown: 'Cooldown',
+    haptics: 'Vibration',
+    pulse: 'Pulse',
+    gap: 'Gap',
+    tryHaptics: 'Try',
+    hapticsUnsupported: 'This device can\'t vibrate; patterns can still be edited',
+    noFiles: 'No audio yet',
+    unplayable: 'Unplayable',
+    analysing: 'Analysing…',
+    moveTo: 'Move to',
+    copyTo: 'Copy to',
+    gain: 'Gain',
+    importAudio: 'Import audio',
+    ambient: 'Ambient',
+    chooseAmbient: 'Choose a looping ambient track',
+  },
+
+  bulkImport: {
+    title: 'Review import',
+    rules: 'Rules',
+    skip: 'Skip',
+    addRule: 'Add rule',
+    resetRules: 'Reset',
+    confirm: count => `Import ${count}`,
+  },
+
+  update: {
+    available: 'A new version is available',
+    afterSession: ' – update after this session',
+    later: 'Later',
+    apply: 'Update',
+  },
+
+  main: {
+    language: 'Language',
+    volume: 'Volume',
+    foreground: 'Clips',
+    background: 'Ambient',
+    crossfade: 'Crossfade',
+    sensitivity: 'Sensitivity',
+    haptics: 'Vibration',
+    hapticsUnsupported: 'This device can\'t vibrate',
+    program: 'Session program',
+    noProgram: 'None',
+    editProgram: 'Edit program',
+    newProgram: 'New program',
+    motionSource: 'Input',
+    calibrate: 'Calibrate',
+    calibrated: 'Calibrated',
+    pleasure: 'Pleasure',
+    dirtyTalk: 'Dirty talk',
+    monitor: 'Motion',
+    motionStalled: 'No motion data',
+    tapPad: 'Tap here or press any key to simulate motion',
+    schemes: 'Schemes',
+    addScheme: 'New',
+    activeScheme: 'Active',
+    activateScheme: 'Tap to activate',
+  },
+
+  manual: {
+    title: 'Manual controls',
+    skip: 'Skip',
+    replay: 'Replay',
+    pin: 'Pin level',
+    auto: 'Auto',
+    mode: 'Manual pleasure',
+    modeHint: 'Set pleasure with the slider instead of motion',
+  },
+
+  remote: {
+    title: 'Pairing',
+    hint: 'One device sends its motion and remote controls, the other plays the audio. Enter the same relay and pairing code on both.',
+    relayUrl: 'Relay',
+    roomCode: 'Pairing code',
+    controller: 'Be the controller',
+    player: 'Be the player',
+    disconnect: 'Disconnect',
+    status: {
+      connecting: 'Connecting…',
+      waiting: 'Waiting for the other device',
+      connected: 'Connected',
+      offline: 'Offline, retrying',
+    },
+    controllerActive: 'Sending this device\'s motion to the player',
+    playerActive: 'Motion comes from the controller',
+    noReport: 'No word from the player yet',
+    startPlayer: 'Start',
+    stopPlayer: 'Stop',
+    scheme: 'Scheme',
+  },
+
+  recording: {
+    title: 'Session recording',
+    replaying: 'Replaying',
+    muted: 'muted',
+    stats: 'Stats',
+    start: 'Record',
+    stop: 'Stop',
+    replay: 'Replay',
+    last: (duration, decisions, clips) => `Last recording ${duration} · ${decisions} decisions · ${clips} clips`,
+  },
+
+  onboarding: {
+    title: 'Device check',
+    intro: 'Make sure the sensors and sound work, and grant permissions where needed',
+    capabilities: {
+      motion: 'Motion sensor',
+      microphone: 'Microphone',
+      audio: 'Sound',
+    },
+    status: {
+      available: 'Available',
+      prompt: 'Needs permission',
+      unsupported: 'Not supported',
+    },
+    insecure: 'The page isn\'t served over HTTPS, so the browser withholds sensors and the microphone',
+    failures: {
+      unsupported: source => `${source} input isn't available on this device`,
+      denied: source => `${source} permission was denied; it can be allowed again in the browser settings`,
+      insecure: source => `${source} input needs the page to be opened over HTTPS`,
+    },
+    testSensor: 'Allow and test the motion sensor',
+    waiting: 'Waiting for sensor data…',
+    working: 'The sensor works, move the device to see the readings change',
+    noData: 'No sensor data arrived, this device may not have a motion sensor',
+    testAudio: 'Test sound',
+    audioWorking: 'You should hear a short beep',
+    audioBlocked: 'Sound is still blocked by the browser, try again',
+    fallbacks: 'Use another input',
+    open: 'Device check',
+    done: 'Done',
+  },
+
+  calibration: {
+    title: source => `Calibrate: ${source}`,
+    rest: 'Hold still',
+    restHint: 'Measuring noise at rest…',
+    motion: 'Start moving rhythmically',
+    motionHint: 'Measuring your motion…',
+    done: 'Calibrated',
+    result: (threshold, motionLevel) => `Threshold ${threshold} · motion level ${motionLevel}`,
+    failed: 'Calibration failed',
+    failedHint: 'No clear motion was detected, or the sensor couldn\'t be read',
+  },
+
+  replay: {
+    title: 'Session replay',
+    recorded: 'Recorded',
+    current: name => `Current scheme (${name})`,
+    muted: 'Replay muted',
+    audible: 'Replay with sound',
+  },
+
+  stats: {
+    title: 'Session stats',
+    empty: 'No sessions yet',
+    live: duration => `This session · ${duration}`,
+    compare: 'Compare',
+    clips: 'Clips played',
+    noClips: 'No clips played',
+    duration: 'Duration',
+    levelClips: level => `LV.${level} clips`,
+    bursts: 'Bursts',
+    averagePleasure: 'Avg. pleasure',
+    peakPleasure: 'Peak pleasure',
+    intensity: 'Intensity',
+  },
+
+  program: {
+    title: 'Session program',
+    created: n => `Program ${n}`,
+    name: 'Name',
+    steps: 'Steps',
+    hint: 'Floor and ceiling are percentages of the maximum pleasure and move gradually from the previous step\'s values; the cooldown only plays level 1',
+    duration: 'Length (min)',
+    floor: 'Floor %',
+    ceiling: 'Ceiling %',
+    addStep: 'Add step',
+    cooldown: 'Cooldown (min)',
+    fadeOut: 'Fade-out (s)',
+    total: duration => `${duration} total`,
+    step: (n, count) => `Step ${n}/${count}`,
+    cooldownPhase: 'Cooling down',
+    remaining: duration => `${duration} left`,
+  },
+
+  packageImport: {
+    title: 'Import scheme',
+    keepBoth: 'Keep both',
+    replace: 'Replace existing',
+    noFiles: 'No audio',
+    confirm: 'Import',
+  },
+};
@@ -0,0 +1,65 @@
+import { en } from './en';
+import { zhCN } from './zh-CN';
+import type { Messages } from './zh-CN';
+
+// --- Locales ---
+
+export type { Messages };
+
+export type Locale = 'zh-CN' | 'en';
+
+export const MESSAGES: Record<Locale, Messages> = {
+  'zh-CN': zhCN,
+  en,
+};
+
+export const LOCALES = Object.keys(MESSAGES) as Locale[];
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.includes(value as Locale);
+
+// First browser language we have a catalog for; Chinese otherwise
+export const detectLocale = (): Locale => {
+  const preferred = typeof navigator === 'undefined' ? [] : navigator.languages ?? [navigator.language];
+  for (const language of preferred) {
+    if (language.toLowerCase().startsWith('zh')) return 'zh-CN';
+    if (language.toLowerCase().startsWith('en')) return 'en';
+  }
+  return 'zh-CN';
+};
+
+// --- Formatting ---
+
+export type Formatter = {
+  number: (value: number, fractionDigits?: number) => string;
+  signed: (value: number, fractionDigits?: number) => string; // "+1.5", "-3.0", "0.0"
+  percent: (ratio: number) => string;
+  dateTime: (iso: string) => string;
+};
+
+export const createFormatter = (locale: Locale): Formatter => {
+  // Intl formatters are costly to build, so one per option set is kept
+  const cache = new Map<string, Intl.NumberFormat>();
+  const numberFormat = (key: string, options: Intl.NumberFormatOptions) => {
+    let format = cache.get(key);
+    if (!format) {
+      format = new Intl.NumberFormat(locale, options);
+      cache.set(key, format);
+    }
+    return format;
+  };
+  const dateFormat = new Intl.DateTimeFormat(locale, { dateStyle: 'short', timeStyle: 'short' });
+
+  return {
+    number: (value, fractionDigits = 0) =>
+      numberFormat(`n${fractionDigits}`, { minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits })
+        .format(value),
+    signed: (value, fractionDigits = 0) =>
+      numberFormat(`s${fractionDigits}`, {
+        minimumFractionDigits: fractionDigits,
+        maximumFractionDigits: fractionDigits,
+        signDisplay: 'exceptZero',
+      }).format(value),
+    percent: ratio => numberFormat('p', { style: 'percent', maximumFractionDigits: 0 }).format(ratio),
+    dateTime: iso => dateFormat.format(new Date(iso)),
+  };
+};
@@ -0,0 +1,323 @@
+import type { LevelId, SelectionMode } from '../types';
+import type { CapabilityStatus } from '../engine/capabilities';
+import type { MotionSourceErrorCode, MotionSourceId } from '../engine/motionSources';
+import type { RemoteStatus } from '../engine/remote';
+import type { RuleError, RuleErrorCode } from '../engine/rules';
+import type { SchemePackageErrorCode } from '../engine/schemePackage';
+
+// --- Simplified Chinese ---
+// The source catalog: its shape is the `Messages` type every other locale has to match.
+// Values that need data are functions; numbers arrive already formatted for the locale.
+
+export const zhCN = {
+  languageName: '中文',
+
+  levelNames: {
+    1: '阶段 1: 微感',
+    2: '阶段 2: 中感',
+    3: '阶段 3: 高感',
+    4: '阶段 4: 极乐',
+    5: '阶段 5: 爆发',
+  } as Record<LevelId, string>,
+  levelBand: (min: string, max: string) => `快感度 ${min}-${max}`,
+  levelBurst: '骚话满值触发',
+
+  selectionModes: {
+    random: '随机',
+    shuffle: '洗牌',
+    weighted: '权重',
+  } as Record<SelectionMode, string>,
+
+  motionSources: {
+    devicemotion: '重力感应',
+    tap: '点击',
+    microphone: '麦克风',
+    script: '脚本',
+    remote: '远程',
+  } as Record<MotionSourceId, string>,
+
+  schemeNames: {
+    default: '默认方案 1',
+    created: (n: number) => `新方案 ${n}`,
+    copy: (name: string) => `${name} 副本`,
+    imported: '导入的方案',
+  },
+
+  ruleErrors: {
+    bandNotInteger: ({ level }) => `阶段 ${level} 的范围必须是整数`,
+    bandInverted: ({ level }) => `阶段 ${level} 的下限大于上限`,
+    bandStart: () => '阶段 1 必须从 1 开始',
+    bandOverlap: ({ level, next }) => `阶段 ${level} 与阶段 ${next} 的范围重叠`,
+    bandGap: ({ level, next }) => `阶段 ${level} 与阶段 ${next} 之间存在空隙`,
+    burstThreshold: () => '骚话阈值必须是大于 0 的整数',
+    riseRate: () => '上升速率必须大于 0',
+    decayRate: () => '衰减速率不能为负数',
+    heartbeat: () => '心跳间隔不能小于 0.25 秒',
+  } as Record<RuleErrorCode, (error: RuleError) => string>,
+
+  packageErrors: {
+    unreadable: () => '无法读取方案文件，文件可能已损坏',
+    missingManifest: () => '方案文件缺少 manifest.json',
+    invalidManifest: () => 'manifest.json 格式错误',
+    notPackage: () => '不是有效的方案文件',
+    tooNew: () => '方案文件版本过新，请更新应用',
+    incomplete: () => '方案文件缺少必要信息',
+    invalidLevel: level => `阶段 ${level} 的音频列表无效`,
+    missingAudio: name => `缺少音频文件: ${name}`,
+  } as Record<SchemePackageErrorCode, (detail?: string) => string>,
+
+  toasts: {
+    keepOneScheme: '至少保留一个方案',
+    schemeDeleted: (name: string) => `已删除「${name}」`,
+    schemeSaved: (name: string) => `已保存「${name}」`,
+    schemeDuplicated: (name: string) => `已创建「${name}」`,
+    schemeImported: (name: string) => `已导入方案「${name}」`,
+    filesImported: (count: number) => `已导入 ${count} 个音频`,
+    duplicateFailed: '复制方案失败',
+    noAudioFound: '未找到音频文件',
+    dropFailed: '无法读取拖入的文件',
+    scriptFailed: '无法读取动作脚本',
+    recordingFailed: '无法读取会话记录',
+    exportFailed: '导出失败',
+    importFailed: '导入失败',
+    loadFailed: '无法读取已保存的方案，重新打开应用之前的修改都不会保存',
+    playbackSkipped: (name: string) => `无法播放「${name}」，已跳过`,
+    programFinished: (name: string) => `「${name}」已结束`,
+    remoteInputFailed: '本机的动作输入不可用，无法作为控制端',
+  },
+
+  dialogs: {
+    discardChanges: '放弃未保存的修改？',
+    discard: '放弃',
+    clearLevel: (level: string) => `清空「${level}」的所有音频？`,
+    clear: '清空',
+    deleteSession: '删除这条会话记录？',
+    deleteProgram: (name: string) => `删除程序「${name}」？`,
+  },
+
+  common: {
+    cancel: '取消',
+    undo: '撤销',
+    close: '关闭',
+    apply: '应用',
+    retry: '重试',
+    save: '保存',
+    import: '导入',
+    export: '导出',
+    delete: '删除',
+    none: '无',
+    seconds: '秒',
+    milliseconds: '毫秒',
+  },
+
+  editor: {
+    title: '编辑方案',
+    schemeName: '方案名称',
+    bulkTitle: '批量导入',
+    bulkHint: '拖入文件或文件夹，按文件夹名或文件名 (如 L3_*.mp3) 自动分配阶段',
+    pickFolder: '选择文件夹',
+    pickFiles: '选择文件',
+    rules: '触发规则',
+    bands: '快感度区间',
+    burstThreshold: '骚话阈值',
+    heartbeat: '心跳间隔 (秒)',
+    riseRate: '上升速率 (×敏感度)',
+    decayRate: '衰减速率',
+    cooldown: '冷却',
+    haptics: '震动',
+    pulse: '脉冲',
+    gap: '间隔',
+    tryHaptics: '试一下',
+    hapticsUnsupported: '此设备不支持震动，仍可编辑',
+    noFiles: '未导入音频',
+    unplayable: '无法播放',
+    analysing: '分析中…',
+    moveTo: '移动到',
+    copyTo: '复制到',
+    gain: '增益',
+    importAudio: '导入音频',
+    ambient: '背景音',
+    chooseAmbient: '选择循环背景音',
+  },
+
+  bulkImport: {
+    title: '确认导入',
+    rules: '分配规则',
+    skip: '跳过',
+    addRule: '添加规则',
+    resetRules: '恢复默认',
+    confirm: (count: number) => `导入 ${count}`,
+  },
+
+  update: {
+    available: '发现新版本',
+    afterSession: '，结束本次会话后更新',
+    later: '稍后',
+    apply: '更新',
+  },
+
+  main: {
+    language: '语言',
+    volume: '全局音量',
+    foreground: '片段',
+    background: '背景音',
+    crossfade: '换挡淡化',
+    sensitivity: '敏感度',
+    haptics: '震动反馈',
+    hapticsUnsupported: '此设备不支持震动',
+    program: '会话程序',
+    noProgram: '不使用',
+    editProgram: '编辑程序',
+    newProgram: '新建程序',
+    motionSource: '输入源',
+    calibrate: '校准',
+    calibrated: '已校准',
+    pleasure: '快感度',
+    dirtyTalk: '骚话值',
+    monitor: '震动监控',
+    motionStalled: '未收到动作数据',
+    tapPad: '点击此处或按任意键模拟动作',
+    schemes: '音频方案',
+    addScheme: '新增',
+    activeScheme: '当前生效',
+    activateScheme: '点击启用',
+  },
+
+  manual: {
+    title: '手动控制',
+    skip: '下一段',
+    replay: '重播',
+    pin: '锁定阶段',
+    auto: '自动',
+    mode: '手动快感度',
+    modeHint: '用滑块代替动作控制快感度',
+  },
+
+  remote: {
+    title: '双机联动',
+    hint: '一台设备作为控制端发送动作并遥控，另一台作为播放端播放音频。两台设备填写相同的中继服务器和配对码。',
+    relayUrl: '中继服务器',
+    roomCode: '配对码',
+    controller: '作为控制端',
+    player: '作为播放端',
+    disconnect: '断开',
+    status: {
+      connecting: '连接中…',
+      waiting: '等待另一台设备',
+      connected: '已连接',
+      offline: '已断开，正在重试',
+    } as Record<RemoteStatus, string>,
+    controllerActive: '本机动作正发送到播放端',
+    playerActive: '动作来自控制端',
+    noReport: '尚未收到播放端状态',
+    startPlayer: '开始播放',
+    stopPlayer: '停止播放',
+    scheme: '方案',
+  },
+
+  recording: {
+    title: '会话记录',
+    replaying: '回放中',
+    muted: '静音',
+    stats: '统计',
+    start: '开始录制',
+    stop: '停止录制',
+    replay: '回放',
+    last: (duration: string, decisions: number, clips: number) =>
+      `上次记录 ${duration} · ${decisions} 次决策 · ${clips} 个片段`,
+  },
+
+  onboarding: {
+    title: '设备检查',
+    intro: '确认传感器和声音可以正常使用，需要时授予权限',
+    capabilities: {
+      motion: '重力感应',
+      microphone: '麦克风',
+      audio: '声音播放',
+    },
+    status: {
+      available: '可用',
+      prompt: '需要授权',
+      unsupported: '不支持',
+    } as Record<CapabilityStatus, string>,
+    insecure: '页面未通过 HTTPS 打开，浏览器不会开放传感器和麦克风',
+    failures: {
+      unsupported: source => `此设备无法使用${source}`,
+      denied: source => `${source}权限被拒绝，可在浏览器设置中重新允许`,
+      insecure: source => `${source}需要通过 HTTPS 打开页面`,
+    } as Record<MotionSourceErrorCode, (source: string) => string>,
+    testSensor: '授权并测试重力感应',
+    waiting: '等待传感器数据…',
+    working: '传感器工作正常，晃动设备看看读数变化',
+    noData: '没有收到传感器数据，此设备可能没有重力感应',
+    testAudio: '测试声音',
+    audioWorking: '应能听到一声提示音',
+    audioBlocked: '声音仍被浏览器阻止，请再试一次',
+    fallbacks: '改用其他输入',
+    open: '设备检查',
+    done: '完成',
+  },
+
+  calibration: {
+    title: (source: string) => `校准${source}`,
+    rest: '保持静止',
+    restHint: '正在记录静止时的噪声…',
+    motion: '开始有节奏地运动',
+    motionHint: '正在记录运动幅度…',
+    done: '校准完成',
+    result: (threshold: string, motionLevel: string) => `阈值 ${threshold} · 运动幅度 ${motionLevel}`,
+    failed: '校准失败',
+    failedHint: '未检测到明显的运动，或无法读取传感器',
+  },
+
+  replay: {
+    title: '会话回放',
+    recorded: '录制时',
+    current: (name: string) => `当前方案 (${name})`,
+    muted: '静音回放',
+    audible: '有声回放',
+  },
+
+  stats: {
+    title: '会话统计',
+    empty: '暂无会话记录',
+    live: (duration: string) => `本次会话 · ${duration}`,
+    compare: '对比',
+    clips: '播放片段',
+    noClips: '未播放任何片段',
+    duration: '时长',
+    levelClips: (level: LevelId) => `LV.${level} 片段`,
+    bursts: '爆发次数',
+    averagePleasure: '平均快感度',
+    peakPleasure: '峰值快感度',
+    intensity: '强度',
+  },
+
+  program: {
+    title: '会话程序',
+    created: (n: number) => `程序 ${n}`,
+    name: '名称',
+    steps: '分段',
+    hint: '上下限为快感度最大值的百分比，从上一段逐渐过渡到本段的值；冷却时只播放阶段 1',
+    duration: '时长 (分)',
+    floor: '下限 %',
+    ceiling: '上限 %',
+    addStep: '添加分段',
+    cooldown: '冷却 (分)',
+    fadeOut: '结束淡出 (秒)',
+    total: (duration: string) => `共 ${duration}`,
+    step: (n: number, count: number) => `分段 ${n}/${count}`,
+    cooldownPhase: '冷却中',
+    remaining: (duration: string) => `剩余 ${duration}`,
+  },
+
+  packageImport: {
+    title: '导入方案',
+    keepBoth: '保留两者',
+    replace: '覆盖同名方案',
+    noFiles: '未包含音频',
+    confirm: '确认导入',
+  },
+};
+
+export type Messages = typeof zhCN;
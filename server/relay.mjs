@@ -0,0 +1,89 @@
+// --- Pairing Relay ---
+// Forwards every message a client sends to the other clients in the same room, untouched.
+// Rooms are picked by the pairing code in the URL (ws://host:8787/?room=CODE) and exist
+// only while someone is in them. The relay knows nothing about the app's messages apart
+// from the peer count it announces to a room whenever someone joins or leaves.
+//
+//   npm run relay                      ws://0.0.0.0:8787
+//   PORT=9000 npm run relay
+//   TLS_CERT=cert.pem TLS_KEY=key.pem npm run relay   wss://, for pages served over HTTPS
+
+import { readFileSync } from 'node:fs';
+import { createServer } from 'node:https';
+import { WebSocket, WebSocketServer } from 'ws';
+
+const PORT = Number(process.env.PORT) || 8787;
+const MAX_PAYLOAD = 64 * 1024; // Motion samples and status updates are tiny
+const MAX_ROOM_SIZE = 8;
+const PING_INTERVAL_MS = 30000; // Drops peers that vanished without closing (sleeping phones)
+const ROOM_PATTERN = /^[A-Za-z0-9-]{1,32}$/;
+
+const { TLS_CERT, TLS_KEY } = process.env;
+const server = TLS_CERT && TLS_KEY
+  ? createServer({ cert: readFileSync(TLS_CERT), key: readFileSync(TLS_KEY) })
+  : null;
+const wss = server
+  ? new WebSocketServer({ server, maxPayload: MAX_PAYLOAD })
+  : new WebSocketServer({ port: PORT, maxPayload: MAX_PAYLOAD });
+
+/** @type {Map<string, Set<WebSocket>>} */
+const rooms = new Map();
+
+const announcePeers = (peers) => {
+  const message = JSON.stringify({ type: 'peers', count: peers.size });
+  peers.forEach(peer => peer.readyState === WebSocket.OPEN && peer.send(message));
+};
+
+wss.on('connection', (socket, request) => {
+  const room = new URL(request.url ?? '/', 'http://relay').searchParams.get('room') ?? '';
+  if (!ROOM_PATTERN.test(room)) {
+    socket.close(1008, 'Invalid room');
+    return;
+  }
+  const peers = rooms.get(room) ?? new Set();
+  if (peers.size >= MAX_ROOM_SIZE) {
+    socket.close(1013, 'Room is full');
+    return;
+  }
+  rooms.set(room, peers);
+  peers.add(socket);
+  announcePeers(peers);
+
+  let alive = true;
+  socket.on('pong', () => { alive = true; });
+  const ping = setInterval(() => {
+    if (!alive) {
+      socket.terminate();
+      return;
+    }
+    alive = false;
+    socket.ping();
+  }, PING_INTERVAL_MS);
+
+  socket.on('message', (data, isBinary) => {
+    peers.forEach(peer => {
+      if (peer !== socket && peer.readyState === WebSocket.OPEN) peer.send(data, { binary: isBinary });
+    });
+  });
+
+  socket.on('close', () => {
+    clearInterval(ping);
+    peers.delete(socket);
+    if (peers.size === 0) {
+      rooms.delete(room);
+    } else {
+      announcePeers(peers);
+    }
+  });
+
+  socket.on('error', error => console.error(`Socket error in room "${room}":`, error));
+});
+
+wss.on('error', error => {
+  console.error("Relay failed:", error);
+  process.exit(1);
+});
+
+const scheme = server ? 'wss' : 'ws';
+if (server) server.listen(PORT);
+console.log(`Pairing relay listening on ${scheme}://0.0.0.0:${PORT}`);
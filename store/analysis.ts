@@ -0,0 +1,43 @@
+import { analyzeAudio, describeError, isAnalysed } from '../engine/audioAnalysis';
+import { schemeFiles } from '../engine/schemes';
+import type { AppStore } from './index';
+import type { AppState } from './state';
+
+// --- File Analysis (validation, metadata, loudness) ---
+
+// Decodes newly imported (or not yet analysed) clips one at a time, wherever they show up.
+// Returns the function that stops watching.
+export const startFileAnalysis = (store: AppStore) => {
+  const queued = new Set<string>();
+  let queue = Promise.resolve();
+  let checked: Pick<AppState, 'schemes' | 'editor'> | null = null;
+
+  const enqueueNewFiles = () => {
+    const { schemes, editor } = store.getState();
+    if (schemes === checked?.schemes && editor === checked?.editor) return;
+    checked = { schemes, editor };
+
+    [...schemes, editor].forEach(scheme => {
+      if (!scheme) return;
+      schemeFiles(scheme).forEach(file => {
+        if (isAnalysed(file) || queued.has(file.id)) return;
+        queued.add(file.id);
+        queue = queue
+          .then(() => fetch(file.url))
+          .then(response => response.blob())
+          .then(analyzeAudio)
+          .then(result => {
+            if (result.error) console.warn(`"${file.name}" can't be decoded:`, result.error);
+            store.dispatch({ type: 'filePatched', fileId: file.id, patch: result });
+          })
+          .catch(error => {
+            console.error(`Analysis failed for "${file.name}":`, error);
+            store.dispatch({ type: 'filePatched', fileId: file.id, patch: { error: describeError(error) } });
+          });
+      });
+    });
+  };
+
+  enqueueNewFiles();
+  return store.subscribe(enqueueNewFiles);
+};
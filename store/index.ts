@@ -0,0 +1,64 @@
+import { createAudioEngine } from '../engine/audioEngine';
+import type { AudioEngine } from '../engine/audioEngine';
+import { createHapticEngine } from '../engine/haptics';
+import type { HapticEngine } from '../engine/haptics';
+import { createStore } from '../engine/store';
+import type { Store } from '../engine/store';
+import { startFileAnalysis } from './analysis';
+import { createNotifications } from './notifications';
+import type { Notifications } from './notifications';
+import { startPersistence } from './persistence';
+import { createRemotePairing } from './remote';
+import type { RemotePairing } from './remote';
+import { createSchemeActions } from './schemeActions';
+import type { SchemeActions } from './schemeActions';
+import { createSessionController } from './session';
+import type { SessionController } from './session';
+import { initialState, reducer } from './state';
+import type { Action, AppState } from './state';
+
+// --- App Services ---
+// The store plus everything that acts on it. Views read state through the store and call
+// these for anything beyond a plain dispatch.
+
+export type AppStore = Store<AppState, Action>;
+
+export type AppServices = {
+  store: AppStore;
+  audioEngine: AudioEngine; // For the device check's test tone
+  haptics: HapticEngine; // For trying out patterns in the editor
+  notifications: Notifications;
+  session: SessionController;
+  schemes: SchemeActions;
+  remote: RemotePairing;
+  dispose: () => void;
+};
+
+export const createAppServices = (): AppServices => {
+  const store: AppStore = createStore(reducer, initialState);
+  const audioEngine = createAudioEngine();
+  const haptics = createHapticEngine();
+  const notifications = createNotifications(store);
+  const session = createSessionController(store, audioEngine, haptics, notifications);
+  const remote = createRemotePairing(store, session, audioEngine, notifications);
+  const stopPersistence = startPersistence(store, notifications);
+  const stopAnalysis = startFileAnalysis(store);
+
+  return {
+    store,
+    audioEngine,
+    haptics,
+    notifications,
+    session,
+    schemes: createSchemeActions(store, audioEngine, notifications),
+    remote,
+    dispose: () => {
+      remote.dispose();
+      session.dispose();
+      stopPersistence();
+      stopAnalysis();
+    },
+  };
+};
+
+export * from './state';
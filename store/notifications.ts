@@ -0,0 +1,43 @@
+import { createId } from '../engine/storage';
+import type { AppStore } from './index';
+import type { ConfirmRequest, Toast } from './state';
+
+// --- Notifications ---
+
+const TOAST_MS = 4000;
+const UNDO_TOAST_MS = 8000;
+const MAX_TOASTS = 3;
+
+export type Notifications = {
+  showToast: (kind: Toast['kind'], message: string, options?: Pick<Toast, 'action' | 'onClose'>) => void;
+  closeToast: (id: string) => void;
+  confirm: (request: ConfirmRequest) => void;
+  dismissConfirm: () => void;
+};
+
+export const createNotifications = (store: AppStore): Notifications => {
+  // onClose runs once, whichever of dismissal, action or timeout comes first
+  const closeToast = (id: string) => {
+    const toast = store.getState().toasts.find(item => item.id === id);
+    if (!toast) return;
+    store.dispatch({ type: 'toastClosed', id });
+    toast.onClose?.();
+  };
+
+  // Toasts with an action (undo) stay up longer. Beyond MAX_TOASTS the oldest is closed
+  // first, so its onClose still runs (an undo toast releases its scheme there).
+  const showToast: Notifications['showToast'] = (kind, message, options = {}) => {
+    const toast: Toast = { id: createId('toast'), kind, message, ...options };
+    const { toasts } = store.getState();
+    toasts.slice(0, Math.max(toasts.length - MAX_TOASTS + 1, 0)).forEach(old => closeToast(old.id));
+    store.dispatch({ type: 'toastShown', toast });
+    setTimeout(() => closeToast(toast.id), toast.action ? UNDO_TOAST_MS : TOAST_MS);
+  };
+
+  return {
+    showToast,
+    closeToast,
+    confirm: request => store.dispatch({ type: 'confirmRequested', request }),
+    dismissConfirm: () => store.dispatch({ type: 'confirmRequested', request: null }),
+  };
+};
@@ -0,0 +1,78 @@
+import {
+  collectBlobUrls,
+  loadPersistedState,
+  loadSessionLogs,
+  revokeStaleBlobUrls,
+  savePrograms,
+  saveSchemes,
+  saveSettings,
+} from '../engine/storage';
+import { watch } from '../engine/store';
+import type { AppStore } from './index';
+import type { Notifications } from './notifications';
+import { selectMessages } from './state';
+import type { AppState } from './state';
+
+// --- Persistence ---
+
+// Restores schemes, programs, settings and the session history, then keeps them saved.
+// When they can't be restored, this session isn't saved at all. Returns the function that stops saving.
+export const startPersistence = (store: AppStore, notifications: Notifications) => {
+  loadPersistedState()
+    .then(({ schemes, programs, settings }) => {
+      store.dispatch({ type: 'hydrated', schemes, programs, settings });
+      if (!settings?.onboardingDone) store.dispatch({ type: 'deviceCheckOpened', failure: null });
+    })
+    // Without hydration nothing is ever saved, so the defaults can't overwrite data that's still there
+    .catch(error => {
+      console.error("Failed to restore saved state:", error);
+      notifications.showToast('error', selectMessages(store.getState()).toasts.loadFailed);
+    });
+  loadSessionLogs()
+    .then(logs => store.dispatch({ type: 'sessionLogsLoaded', logs }))
+    .catch(error => console.error("Failed to load session history:", error));
+
+  // Nothing is saved before hydration; right after it everything is, so a first run stores its defaults
+  let saved: AppState = store.getState();
+  const save = () => {
+    const state = store.getState();
+    if (!state.isHydrated) return;
+    const hydrating = !saved.isHydrated;
+    if (hydrating || state.schemes !== saved.schemes) {
+      saveSchemes(state.schemes).catch(error => console.error("Failed to save schemes:", error));
+    }
+    if (hydrating || state.programs !== saved.programs) {
+      savePrograms(state.programs).catch(error => console.error("Failed to save programs:", error));
+    }
+    if (hydrating || state.settings !== saved.settings || state.activeSchemeId !== saved.activeSchemeId) {
+      saveSettings({ ...state.settings, activeSchemeId: state.activeSchemeId })
+        .catch(error => console.error("Failed to save settings:", error));
+    }
+    saved = state;
+  };
+
+  // Release blob URLs of clips that are no longer referenced anywhere
+  let liveBlobUrls = new Set<string>();
+  let referenced: AppState = store.getState();
+  const releaseBlobUrls = () => {
+    const state = store.getState();
+    if (
+      state.schemes === referenced.schemes
+      && state.editor === referenced.editor
+      && state.deletedSchemes === referenced.deletedSchemes
+    ) return;
+    referenced = state;
+    const live = collectBlobUrls([...state.schemes, state.editor, ...state.deletedSchemes]);
+    revokeStaleBlobUrls(liveBlobUrls, live);
+    liveBlobUrls = live;
+  };
+
+  document.documentElement.lang = store.getState().settings.locale;
+  const unsubscribers = [
+    store.subscribe(save),
+    store.subscribe(releaseBlobUrls),
+    watch(store, state => state.settings.locale, locale => { document.documentElement.lang = locale; }),
+  ];
+
+  return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+};
@@ -0,0 +1,190 @@
+import type { AudioEngine } from '../engine/audioEngine';
+import { createMotionSource } from '../engine/motionSources';
+import type { MotionSource, TapMotionSource } from '../engine/motionSources';
+import { createRemoteLink, defaultRelayUrl } from '../engine/remote';
+import type { PlayerStatus, RemoteCommand, RemoteLink, RemoteMessage, RemoteRole } from '../engine/remote';
+import { maxPleasure } from '../engine/rules';
+import type { AppStore } from './index';
+import type { Notifications } from './notifications';
+import type { SessionController } from './session';
+import { selectActiveScheme, selectMessages } from './state';
+import type { AppState } from './state';
+
+// --- Remote Pairing ---
+// Connects this instance to another one through the relay. A controller streams the motion of
+// its own input and sends commands; it never runs a session for it. A player feeds that motion
+// into its session through the remote input source, so its own logic and audio react to it,
+// applies the commands and reports its state back after every change.
+
+const MIN_SENSITIVITY = 1;
+const MAX_SENSITIVITY = 5;
+
+export type RemotePairing = {
+  pair: (role: RemoteRole) => void; // Has to run inside a user gesture (motion permission, audio unlock)
+  unpair: () => void;
+  command: (command: RemoteCommand) => void; // Controller only
+  tap: () => void; // For a controller on the tap input source
+  dispose: () => void;
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+const playerStatus = (state: AppState): PlayerStatus => ({
+  schemes: state.schemes.map(({ id, name }) => ({ id, name })),
+  activeSchemeId: state.activeSchemeId,
+  masterSwitch: state.masterSwitch,
+  globalVolume: state.settings.globalVolume,
+  sensitivity: state.settings.sensitivity,
+  pleasure: state.meters.pleasure,
+  maxPleasure: maxPleasure(selectActiveScheme(state).rules),
+});
+
+// Everything playerStatus reads; the active scheme's rules change along with `schemes`
+const reportInputs = (state: AppState): unknown[] => [
+  state.schemes,
+  state.activeSchemeId,
+  state.masterSwitch,
+  state.settings.globalVolume,
+  state.settings.sensitivity,
+  state.meters.pleasure,
+];
+
+export const createRemotePairing = (
+  store: AppStore,
+  session: SessionController,
+  audioEngine: AudioEngine,
+  notifications: Notifications,
+): RemotePairing => {
+  let link: RemoteLink | null = null;
+  let source: MotionSource | null = null; // The controller's own input
+  let stopReporting: (() => void) | null = null;
+  let lastInputs: unknown[] | null = null; // Of the last report, so unchanged states aren't sent again
+
+  // --- Player ---
+
+  // Runs after every dispatch, so it compares what the status is built from by reference
+  // instead of building it: meter updates that don't touch pleasure cost next to nothing
+  const report = () => {
+    const state = store.getState();
+    const inputs = reportInputs(state);
+    if (lastInputs && inputs.every((value, i) => value === lastInputs?.[i])) return;
+    lastInputs = inputs;
+    link?.send({ type: 'status', status: playerStatus(state) });
+  };
+
+  // Commands are checked against this instance's own state: a stale controller can't
+  // pick a deleted scheme or push a value out of range
+  const applyCommand = (command: RemoteCommand) => {
+    const state = store.getState();
+    switch (command.kind) {
+      case 'power':
+        if (command.on !== state.masterSwitch) session.toggle();
+        break;
+      case 'scheme':
+        if (state.schemes.some(s => s.id === command.id)) store.dispatch({ type: 'schemeActivated', id: command.id });
+        break;
+      case 'volume':
+        if (Number.isFinite(command.value)) {
+          store.dispatch({ type: 'settingsChanged', patch: { globalVolume: clamp(command.value, 0, 1) } });
+        }
+        break;
+      case 'sensitivity':
+        if (Number.isFinite(command.value)) {
+          const sensitivity = clamp(Math.round(command.value), MIN_SENSITIVITY, MAX_SENSITIVITY);
+          store.dispatch({ type: 'settingsChanged', patch: { sensitivity } });
+        }
+        break;
+    }
+  };
+
+  const handlePlayerMessage = (message: RemoteMessage) => {
+    switch (message.type) {
+      case 'motion':
+        session.receiveMotion(message.sample);
+        break;
+      case 'command':
+        applyCommand(message.command);
+        break;
+      case 'peers':
+        // Someone (re)joined: they haven't seen any report yet
+        lastInputs = null;
+        report();
+        break;
+    }
+  };
+
+  // --- Controller ---
+
+  const handleControllerMessage = (message: RemoteMessage) => {
+    if (message.type === 'status') store.dispatch({ type: 'remotePlayerReported', player: message.status });
+  };
+
+  const startStreaming = () => {
+    const state = store.getState();
+    const current = createMotionSource(state.settings.motionSourceId, state.motionScript);
+    source = current;
+    current.start(sample => link?.send({ type: 'motion', sample })).catch(error => {
+      console.error("Remote motion input failed:", error);
+      if (source !== current) return; // Already unpaired
+      unpair();
+      notifications.showToast('error', selectMessages(store.getState()).toasts.remoteInputFailed);
+    });
+  };
+
+  // --- Pairing ---
+
+  const unpair = () => {
+    link?.close();
+    link = null;
+    source?.stop();
+    source = null;
+    stopReporting?.();
+    stopReporting = null;
+    lastInputs = null;
+    store.dispatch({ type: 'remoteUnpaired' });
+  };
+
+  const pair = (role: RemoteRole) => {
+    unpair();
+    const { settings } = store.getState();
+    store.dispatch({ type: 'remotePaired', role });
+    if (role === 'player') {
+      // Commands may start the session later, outside of any gesture
+      audioEngine.unlock();
+      stopReporting = store.subscribe(report);
+    }
+    link = createRemoteLink(settings.relayUrl.trim() || defaultRelayUrl(), settings.roomCode, {
+      onMessage: role === 'player' ? handlePlayerMessage : handleControllerMessage,
+      onStatus: status => store.dispatch({ type: 'remoteStatusChanged', status }),
+    });
+    if (role === 'controller') startStreaming();
+  };
+
+  return {
+    pair,
+    unpair,
+    // The mirrored status follows right away, so sliders don't jump back until the next report
+    command: command => {
+      link?.send({ type: 'command', command });
+      const player = store.getState().remote?.player;
+      if (!player) return;
+      if (command.kind === 'scheme') {
+        store.dispatch({ type: 'remotePlayerReported', player: { ...player, activeSchemeId: command.id } });
+      } else if (command.kind === 'volume') {
+        store.dispatch({ type: 'remotePlayerReported', player: { ...player, globalVolume: command.value } });
+      } else if (command.kind === 'sensitivity') {
+        store.dispatch({ type: 'remotePlayerReported', player: { ...player, sensitivity: command.value } });
+      }
+    },
+    tap: () => {
+      if (source?.id === 'tap') (source as TapMotionSource).tap();
+    },
+    dispose: () => {
+      link?.close();
+      link = null;
+      source?.stop();
+      source = null;
+      stopReporting?.();
+    },
+  };
+};
@@ -0,0 +1,236 @@
+import type { AudioFile, LevelId, Scheme } from '../types';
+import { LEVEL_IDS } from '../types';
+import type { AudioEngine } from '../engine/audioEngine';
+import type { BulkImportItem } from '../engine/bulkImport';
+import { dbToGain } from '../engine/loudness';
+import { DEFAULT_RULES, validateRules } from '../engine/rules';
+import {
+  createSchemeFromPackage,
+  downloadBlob,
+  exportSchemePackage,
+  PACKAGE_EXTENSION,
+  readSchemePackage,
+  resolveSchemeName,
+  SchemePackageError,
+} from '../engine/schemePackage';
+import type { SchemePackagePreview } from '../engine/schemePackage';
+import { createEmptyLevels, mapSchemeFiles, setLevelAmbient, updateLevelFiles } from '../engine/schemes';
+import { copyAudioBlob, createId, storeAudioBlob } from '../engine/storage';
+import type { AppStore } from './index';
+import type { Notifications } from './notifications';
+import { selectMessages } from './state';
+
+// --- Scheme Management ---
+
+export type SchemeActions = {
+  create: () => void;
+  edit: (scheme: Scheme) => void;
+  remove: (id: string) => void; // Deletes right away and offers an undo instead of asking first
+  duplicate: (scheme: Scheme) => Promise<void>;
+  // Editor: changes go to a working copy until it's saved
+  updateEditor: (update: (scheme: Scheme) => Scheme) => void;
+  saveEditor: () => void;
+  discardEditor: () => void; // Asks first when there are unsaved changes
+  closeEditor: () => void;
+  addFiles: (level: LevelId, files: File[]) => void;
+  setAmbient: (level: LevelId, file: File | null) => void; // null removes the level's track
+  addBulkImport: (items: BulkImportItem[]) => void;
+  clearLevel: (level: LevelId) => void;
+  previewFile: (file: AudioFile) => void;
+  // Scheme packages
+  exportScheme: (scheme: Scheme) => Promise<void>;
+  readPackage: (file: File) => Promise<SchemePackagePreview | null>;
+  importPackage: (preview: SchemePackagePreview, name: string, replaceExisting: boolean) => Promise<boolean>;
+};
+
+// Stores the audio and returns the new clips (they're analysed once they're in the editor)
+const createAudioFiles = (files: File[]): AudioFile[] =>
+  files.map(f => {
+    const id = createId('audio');
+    storeAudioBlob(id, f).catch(error => console.error("Failed to store audio:", error));
+    return { id, name: f.name, url: URL.createObjectURL(f), trimDb: 0, weight: 1, size: f.size };
+  });
+
+// The editor works on a deep copy
+const cloneScheme = (scheme: Scheme): Scheme => JSON.parse(JSON.stringify(scheme));
+
+export const createSchemeActions = (
+  store: AppStore,
+  audioEngine: AudioEngine,
+  notifications: Notifications,
+): SchemeActions => {
+  const messages = () => selectMessages(store.getState());
+
+  const updateEditor = (update: (scheme: Scheme) => Scheme) => {
+    const { editor } = store.getState();
+    if (editor) store.dispatch({ type: 'editorChanged', scheme: update(editor) });
+  };
+
+  const closeEditor = () => {
+    audioEngine.stopPreview();
+    store.dispatch({ type: 'editorClosed' });
+  };
+
+  // Puts the scheme back at its old position, active again if it was
+  const restore = (scheme: Scheme, index: number, wasActive: boolean) => {
+    store.dispatch({ type: 'schemeRestored', scheme, index, activate: wasActive });
+  };
+
+  return {
+    create: () => {
+      const scheme: Scheme = {
+        id: `scheme-${Date.now()}`,
+        name: messages().schemeNames.created(store.getState().schemes.length + 1),
+        rules: DEFAULT_RULES,
+        levels: createEmptyLevels(),
+      };
+      store.dispatch({ type: 'schemeAdded', scheme });
+      store.dispatch({ type: 'editorOpened', scheme: cloneScheme(scheme) });
+    },
+
+    edit: scheme => store.dispatch({ type: 'editorOpened', scheme: cloneScheme(scheme) }),
+
+    remove: id => {
+      const { schemes, activeSchemeId } = store.getState();
+      const t = messages();
+      if (schemes.length <= 1) {
+        notifications.showToast('error', t.toasts.keepOneScheme);
+        return;
+      }
+      const index = schemes.findIndex(s => s.id === id);
+      const scheme = schemes[index];
+      const wasActive = activeSchemeId === id;
+      store.dispatch({ type: 'schemeDeleted', id });
+      notifications.showToast('info', t.toasts.schemeDeleted(scheme.name), {
+        action: { label: t.common.undo, run: () => restore(scheme, index, wasActive) },
+        onClose: () => store.dispatch({ type: 'deletedSchemeReleased', scheme }),
+      });
+    },
+
+    duplicate: async scheme => {
+      // Every file gets its own id and stored audio, so the copies can be edited independently
+      const blobCopies: [string, string][] = [];
+      const copy: Scheme = {
+        ...mapSchemeFiles(scheme, file => {
+          const id = createId('audio');
+          blobCopies.push([file.id, id]);
+          return { ...file, id };
+        }),
+        id: createId('scheme'),
+        name: resolveSchemeName(messages().schemeNames.copy(scheme.name), store.getState().schemes.map(s => s.name)),
+      };
+      try {
+        await Promise.all(blobCopies.map(([from, to]) => copyAudioBlob(from, to)));
+      } catch (error) {
+        console.error("Failed to copy audio:", error);
+        notifications.showToast('error', messages().toasts.duplicateFailed);
+        return;
+      }
+      store.dispatch({ type: 'schemeAdded', scheme: copy, afterId: scheme.id });
+      notifications.showToast('success', messages().toasts.schemeDuplicated(copy.name));
+    },
+
+    updateEditor,
+
+    saveEditor: () => {
+      const { editor } = store.getState();
+      if (!editor || validateRules(editor.rules).length > 0) return;
+      store.dispatch({ type: 'schemeReplaced', scheme: editor });
+      notifications.showToast('success', messages().toasts.schemeSaved(editor.name));
+      closeEditor();
+    },
+
+    discardEditor: () => {
+      const { schemes, editor } = store.getState();
+      const saved = schemes.find(s => s.id === editor?.id);
+      const isDirty = !saved || JSON.stringify(saved) !== JSON.stringify(editor);
+      if (!isDirty) {
+        closeEditor();
+        return;
+      }
+      const t = messages();
+      notifications.confirm({ message: t.dialogs.discardChanges, confirmLabel: t.dialogs.discard, onConfirm: closeEditor });
+    },
+
+    closeEditor,
+
+    addFiles: (level, files) => {
+      const newFiles = createAudioFiles(files);
+      updateEditor(scheme => updateLevelFiles(scheme, level, current => [...current, ...newFiles]));
+    },
+
+    setAmbient: (level, file) => {
+      const ambient = file ? createAudioFiles([file])[0] : null;
+      updateEditor(scheme => setLevelAmbient(scheme, level, ambient));
+    },
+
+    addBulkImport: items => {
+      updateEditor(scheme => LEVEL_IDS.reduce((next, level) => {
+        const files = items.filter(item => item.level === level).map(item => item.file);
+        if (files.length === 0) return next;
+        const newFiles = createAudioFiles(files);
+        return updateLevelFiles(next, level, current => [...current, ...newFiles]);
+      }, scheme));
+      notifications.showToast('success', messages().toasts.filesImported(items.filter(item => item.level !== null).length));
+    },
+
+    clearLevel: level => {
+      const { editor } = store.getState();
+      if (!editor || editor.levels[level].files.length === 0) return;
+      const t = messages();
+      notifications.confirm({
+        message: t.dialogs.clearLevel(t.levelNames[level]),
+        confirmLabel: t.dialogs.clear,
+        onConfirm: () => updateEditor(scheme => updateLevelFiles(scheme, level, () => [])),
+      });
+    },
+
+    previewFile: file => {
+      audioEngine.preview(file.url, dbToGain((file.normalizationDb ?? 0) + file.trimDb))
+        .catch(error => console.error("Preview failed:", error));
+    },
+
+    exportScheme: async scheme => {
+      try {
+        const blob = await exportSchemePackage(scheme);
+        downloadBlob(blob, `${scheme.name}${PACKAGE_EXTENSION}`);
+      } catch (error) {
+        console.error("Export failed:", error);
+        notifications.showToast('error', messages().toasts.exportFailed);
+      }
+    },
+
+    // Resolves null (after telling the user why) when the file isn't a usable package
+    readPackage: async file => {
+      try {
+        const preview = await readSchemePackage(file);
+        return { ...preview, name: preview.name || messages().schemeNames.imported };
+      } catch (error) {
+        console.error("Import failed:", error);
+        const t = messages();
+        notifications.showToast('error', error instanceof SchemePackageError ? t.packageErrors[error.code](error.detail) : t.toasts.importFailed);
+        return null;
+      }
+    },
+
+    // Opens the imported scheme in the editor; resolves false when it failed
+    importPackage: async (preview, name, replaceExisting) => {
+      const { schemes } = store.getState();
+      const existing = schemes.find(s => s.name === name);
+      const target = replaceExisting ? existing : undefined;
+      const finalName = target ? name : resolveSchemeName(name, schemes.map(s => s.name));
+
+      try {
+        const scheme = await createSchemeFromPackage(preview, finalName, target?.id);
+        store.dispatch(target ? { type: 'schemeReplaced', scheme } : { type: 'schemeAdded', scheme });
+        store.dispatch({ type: 'editorOpened', scheme: cloneScheme(scheme) });
+        notifications.showToast('success', messages().toasts.schemeImported(finalName));
+        return true;
+      } catch (error) {
+        console.error("Import failed:", error);
+        notifications.showToast('error', messages().toasts.importFailed);
+        return false;
+      }
+    },
+  };
+};
@@ -0,0 +1,530 @@
+import type { AudioFile, LevelId, Scheme, SessionProgram } from '../types';
+import { describeError, isPlayable } from '../engine/audioAnalysis';
+import type { AudioEngine } from '../engine/audioEngine';
+import type { HapticEngine } from '../engine/haptics';
+import { dbToGain } from '../engine/loudness';
+import { createMediaSessionController } from '../engine/mediaSession';
+import { createMotionProcessor } from '../engine/motionProcessing';
+import type { ProcessedMotion } from '../engine/motionProcessing';
+import { createMotionSource, MotionSourceError, parseMotionScript } from '../engine/motionSources';
+import type { MotionSample, MotionSource, RemoteMotionSource, TapMotionSource } from '../engine/motionSources';
+import { boundPleasure, programDurationMs, programProgress } from '../engine/programs';
+import { createSessionRecorder } from '../engine/recorder';
+import type { SessionRecorder, SessionRecording } from '../engine/recorder';
+import { advancePleasure, cycleIntensity, decideNext, maxPleasure } from '../engine/rules';
+import { patchSchemeFile } from '../engine/schemes';
+import { createClipSelector } from '../engine/selection';
+import { createId, deleteSessionLog, saveSessionLog } from '../engine/storage';
+import type { SessionLog } from '../engine/storage';
+import { createWakeLockController } from '../engine/wakeLock';
+import type { AppStore } from './index';
+import type { Notifications } from './notifications';
+import { selectActiveProgram, selectActiveScheme, selectCalibration, selectMessages } from './state';
+import type { AppState } from './state';
+
+// --- Session ---
+// Runs a session outside of React: motion input, the heartbeat, rule decisions, playback and
+// recording. Everything is read from the store when it's needed, so no callback ever works
+// with an outdated scheme, sensitivity or meter value.
+
+const MASTER_FADE_OUT_MS = 300;
+const SKIP_FADE_OUT_MS = 150;
+const HEARTBEAT_POLL_MS = 250;
+const MOTION_STALL_MS = 3000; // No samples for this long = input has stopped
+const MIN_SESSION_LOG_MS = 10000; // Shorter sessions aren't worth keeping in the history
+
+export type SessionController = {
+  toggle: () => void; // Master switch; has to run inside a user gesture to unlock audio
+  stop: () => void;
+  tap: () => void; // For the tap input source
+  receiveMotion: (sample: MotionSample) => void; // For the remote input source
+  loadMotionScript: (files: FileList | null) => Promise<void>; // Switches to the script input
+  startRecording: () => void;
+  stopRecording: () => void;
+  // Plays the recorded motion back in real time through the live logic and audio engine
+  startLiveReplay: (recording: SessionRecording, muted: boolean) => void;
+  // Manual controls
+  skip: () => void; // Another clip of the playing (or pinned) level, right away
+  replayLast: () => void; // The most recent clip again, from the start
+  pinLevel: (level: LevelId | null) => void;
+  setManualMode: (on: boolean) => void;
+  setManualPleasure: (pleasure: number) => void;
+  liveSession: () => SessionRecording | undefined; // The running session so far
+  deleteSessionLog: (id: string) => void;
+  dispose: () => void;
+};
+
+export const createSessionController = (
+  store: AppStore,
+  audioEngine: AudioEngine,
+  haptics: HapticEngine,
+  notifications: Notifications,
+): SessionController => {
+  // Lives for the whole app so history survives switching schemes
+  const clipSelector = createClipSelector();
+  const wakeLock = createWakeLockController();
+  // Lock screen and headset buttons
+  const mediaSession = createMediaSessionController({
+    play: () => {
+      if (!store.getState().masterSwitch) start();
+    },
+    pause: () => {
+      if (store.getState().masterSwitch) stop();
+    },
+    next: () => skip(),
+    previous: () => replayLast(),
+  });
+
+  let isPlaying = false;
+  let motionInCycle = false;
+  let lastMotionTime = 0;
+  let cycleMotion = { sum: 0, count: 0 }; // Motion intensity seen this heartbeat
+  let lastProcessed: ProcessedMotion | null = null;
+  let lastSampleTime = 0; // Any sample, motion or not
+  let source: MotionSource | null = null;
+  let stopHeartbeat: (() => void) | null = null;
+  let recorder: SessionRecorder | null = null; // Manual recording, incl. motion samples
+  let sessionLog: SessionRecorder | null = null; // Every session, for the history
+  let playingLevel: LevelId | null = null; // Drives the vibration rhythm and lock screen info
+  let lastClip: { level: LevelId; file: AudioFile } | null = null; // For "replay last"
+  let clipToken = 0; // Identifies the newest clip, so results of skipped ones are ignored
+  // Program of the running session, fixed when it starts so edits meanwhile don't shift it
+  let program: { program: SessionProgram; startedAt: number } | null = null;
+
+  const setMeters = (patch: Partial<AppState['meters']>) => {
+    const { meters } = store.getState();
+    if (Object.entries(patch).every(([key, value]) => meters[key as keyof typeof meters] === value)) return;
+    store.dispatch({ type: 'metersChanged', patch });
+  };
+
+  // --- Recording ---
+
+  // Motion samples only go to the manual recorder; everything else is logged by both
+  const forEachRecorder = (record: (recorder: SessionRecorder) => void) => {
+    [recorder, sessionLog].forEach(r => r && record(r));
+  };
+
+  const createRecorderForActiveScheme = () => {
+    const state = store.getState();
+    const scheme = selectActiveScheme(state);
+    return createSessionRecorder({
+      scheme: { id: scheme.id, name: scheme.name, rules: scheme.rules },
+      sensitivity: state.settings.sensitivity,
+      motionSourceId: state.settings.motionSourceId,
+      calibration: selectCalibration(state),
+    });
+  };
+
+  const finishSessionLog = () => {
+    if (!sessionLog) return;
+    const { samples, ...recording } = sessionLog.finish();
+    sessionLog = null;
+    if (recording.durationMs < MIN_SESSION_LOG_MS) return;
+
+    const log: SessionLog = { ...recording, id: createId('session') };
+    store.dispatch({ type: 'sessionLogAdded', log });
+    saveSessionLog(log).catch(error => console.error("Failed to save session:", error));
+  };
+
+  const startRecording = () => {
+    recorder = createRecorderForActiveScheme();
+    store.dispatch({ type: 'recordingChanged', isRecording: true });
+  };
+
+  const stopRecording = () => {
+    if (!recorder) return;
+    const recording = recorder.finish();
+    recorder = null;
+    store.dispatch({ type: 'recordingChanged', isRecording: false, lastRecording: recording });
+  };
+
+  // --- Haptics ---
+
+  // Off unless enabled in the settings, and silent along with a muted replay
+  const hapticsActive = (state: AppState) => state.settings.haptics && !state.liveReplay?.muted;
+
+  const updateHaptics = () => {
+    const state = store.getState();
+    if (playingLevel === null || !hapticsActive(state)) {
+      haptics.setRhythm(null, 0);
+      return;
+    }
+    const scheme = selectActiveScheme(state);
+    haptics.setRhythm(scheme.levels[playingLevel].haptics, state.meters.pleasure / maxPleasure(scheme.rules));
+  };
+
+  const setPlayingLevel = (level: LevelId | null) => {
+    playingLevel = level;
+    updateHaptics();
+    // Idle gaps keep showing the last level
+    if (level !== null) {
+      const state = store.getState();
+      mediaSession.setNowPlaying({ title: selectMessages(state).levelNames[level], artist: selectActiveScheme(state).name });
+    }
+  };
+
+  // --- Playback ---
+
+  const playClip = (scheme: Scheme, level: LevelId, file: AudioFile) => {
+    const token = ++clipToken;
+    isPlaying = true;
+    lastClip = { level, file };
+    setPlayingLevel(level);
+    forEachRecorder(r => r.clip({ level, fileId: file.id, fileName: file.name, durationMs: null }));
+
+    const { ambient } = scheme.levels[level];
+    const clip = {
+      url: file.url,
+      level,
+      gain: dbToGain((file.normalizationDb ?? 0) + file.trimDb),
+      ambient: ambient && isPlayable(ambient)
+        ? { url: ambient.url, gain: dbToGain((ambient.normalizationDb ?? 0) + ambient.trimDb) }
+        : null,
+    };
+    audioEngine.enqueue(clip, store.getState().settings.crossfadeMs)
+      .then(durationMs => {
+        forEachRecorder(r => r.clipDuration(file.id, durationMs));
+        if (durationMs === null && token === clipToken) {
+          isPlaying = false;
+          setPlayingLevel(null);
+        }
+      })
+      .catch(error => {
+        // Flag the file so it isn't picked again, tell the user and try another clip of the level
+        console.error(`Playback failed for "${file.name}":`, error);
+        const patch = { error: describeError(error) };
+        forEachRecorder(r => r.clipDuration(file.id, null));
+        store.dispatch({ type: 'filePatched', fileId: file.id, patch });
+        notifications.showToast('error', selectMessages(store.getState()).toasts.playbackSkipped(file.name));
+        if (!isPlaying || token !== clipToken) return; // Stopped or skipped meanwhile
+        if (!playNextClip(patchSchemeFile(scheme, file.id, patch), level)) {
+          isPlaying = false;
+          setPlayingLevel(null);
+        }
+      });
+  };
+
+  // Returns false when the level has nothing playable
+  const playNextClip = (scheme: Scheme, level: LevelId): boolean => {
+    const file = clipSelector.pick(scheme, level, Date.now());
+    if (!file) return false;
+    playClip(scheme, level, file);
+    return true;
+  };
+
+  const decideAndPlay = () => {
+    const state = store.getState();
+    if (!state.masterSwitch) return;
+
+    const scheme = selectActiveScheme(state);
+    // A pinned level plays on its own, whatever the rules say
+    if (state.pinnedLevel !== null) {
+      if (!playNextClip(scheme, state.pinnedLevel)) {
+        isPlaying = false;
+        setPlayingLevel(null);
+      }
+      return;
+    }
+
+    const { pleasure, dirtyTalk } = state.meters;
+    const decision = decideNext({
+      pleasure,
+      dirtyTalk,
+      motionInCycle: motionInCycle || state.manualMode, // The slider stands in for motion
+      lastMotionTime,
+    }, scheme, Date.now());
+
+    setMeters({ dirtyTalk: decision.dirtyTalk });
+    forEachRecorder(r => r.decision({
+      pleasure,
+      dirtyTalk: decision.dirtyTalk,
+      level: decision.level,
+      branch: decision.branch,
+      explanation: decision.explanation,
+    }));
+
+    if (decision.level !== null) {
+      playNextClip(scheme, decision.level);
+      // Level 5 only plays when dirty talk bursts, and gets its own vibration burst
+      if (decision.level === 5 && hapticsActive(state)) {
+        haptics.burst(scheme.levels[5].haptics);
+      }
+    } else {
+      isPlaying = false;
+      setPlayingLevel(null);
+    }
+  };
+
+  audioEngine.setHandlers({
+    // "每当音频完毕根据完毕时的音频播放逻辑决定下一个播放的音频"
+    // Decided slightly before the end so the next clip can start without a gap
+    onNeedNext: decideAndPlay,
+    onIdle: () => {
+      isPlaying = false;
+      setPlayingLevel(null);
+    },
+  });
+
+  // --- Motion Detection ---
+
+  const stopMotionInput = () => {
+    source?.stop();
+    source = null;
+  };
+
+  const startMotionInput = () => {
+    stopMotionInput();
+    const state = store.getState();
+    const current = createMotionSource(state.settings.motionSourceId, state.motionScript);
+    const processor = createMotionProcessor(selectCalibration(state));
+    source = current;
+    lastSampleTime = Date.now();
+
+    const handleSample = (sample: MotionSample) => {
+      lastSampleTime = Date.now();
+      recorder?.motion(sample);
+      const processed = processor.process(sample);
+      lastProcessed = processed;
+
+      // Visualizer, with stochastic decay to save renders
+      if (processed.magnitude > 0.5) {
+        setMeters({ motion: Math.min(processed.magnitude * 5, 100) });
+      } else if (Math.random() > 0.7) {
+        setMeters({ motion: 0 });
+      }
+
+      if (processed.isMotion) {
+        cycleMotion.sum += processed.intensity;
+        cycleMotion.count++;
+        motionInCycle = true;
+        lastMotionTime = Date.now();
+
+        // Trigger play if currently idle
+        if (!isPlaying) decideAndPlay();
+      }
+    };
+
+    // A failed input turns the session off again and explains why, instead of looking on while nothing happens
+    // Samples from a source that was replaced or stopped meanwhile are dropped
+    current.start(sample => {
+      if (source === current) handleSample(sample);
+    }).catch(error => {
+      console.error("Motion input failed:", error);
+      if (source !== current) return; // Already replaced or stopped
+      stop();
+      store.dispatch({
+        type: 'deviceCheckOpened',
+        failure: { source: current.id, code: error instanceof MotionSourceError ? error.code : 'unsupported' },
+      });
+    });
+  };
+
+  // --- The Heartbeat Cycle (2s by default, per scheme rules) ---
+
+  const startHeartbeat = () => {
+    // Driven by elapsed time, not tick counts: timers are throttled while the screen is off,
+    // so the ticker only polls and every heartbeat that passed meanwhile is applied at once.
+    let lastBeat = Date.now();
+
+    const tick = () => {
+      const now = Date.now();
+      setMeters({ stalled: now - lastSampleTime > MOTION_STALL_MS });
+
+      // A program ends the session on its own, with its own fade-out
+      const progress = program && programProgress(program.program, now - program.startedAt);
+      if (program && progress) {
+        if (progress.phase === 'finished') {
+          notifications.showToast('info', selectMessages(store.getState()).toasts.programFinished(program.program.name));
+          stopSession(program.program.fadeOutMs);
+          return;
+        }
+        setMeters({ programElapsedMs: Math.floor((now - program.startedAt) / 1000) * 1000 });
+      }
+
+      const state = store.getState();
+      const { rules } = selectActiveScheme(state);
+      const beats = Math.floor((now - lastBeat) / rules.heartbeatMs);
+      if (beats === 0) return;
+      lastBeat += beats * rules.heartbeatMs;
+
+      // Pleasure rises with motion, scaled by how vigorous it was; in manual mode the slider sets it
+      const { manualMode } = state;
+      const intensity = cycleIntensity(cycleMotion.sum, cycleMotion.count);
+      const advanced = manualMode
+        ? state.meters.pleasure
+        : advancePleasure(state.meters.pleasure, beats, motionInCycle, state.settings.sensitivity, rules, intensity);
+      const pleasure = progress && !manualMode ? boundPleasure(advanced, progress, rules) : advanced;
+      forEachRecorder(r => r.heartbeat({ pleasure, motion: motionInCycle, intensity }));
+      setMeters({ pleasure, intensity, frequencyHz: lastProcessed?.frequencyHz ?? null });
+      updateHaptics(); // Rhythm follows pleasure
+
+      motionInCycle = false;
+      cycleMotion = { sum: 0, count: 0 };
+
+      // Without motion to wake it, playback resumes from here
+      if (!isPlaying && (manualMode || state.pinnedLevel !== null)) decideAndPlay();
+    };
+
+    const interval = setInterval(tick, HEARTBEAT_POLL_MS);
+    // Catch up right away when the page comes back instead of waiting for the next poll
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') tick();
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  };
+
+  // --- Master Switch ---
+
+  const start = () => {
+    // Compatibility: Unlock Web Audio Context on first user interaction (Touch/Click)
+    // This fixes issues on iOS/Android where audio is blocked until interaction
+    audioEngine.unlock();
+    sessionLog = createRecorderForActiveScheme();
+    // Replays reproduce a recording as it was, so they never run a program
+    const state = store.getState();
+    const active = state.liveReplay ? null : selectActiveProgram(state);
+    program = active && programDurationMs(active) > 0 ? { program: active, startedAt: Date.now() } : null;
+    store.dispatch({ type: 'masterSwitched', on: true });
+    stopHeartbeat = startHeartbeat();
+    // Keep the screen on while the master switch is on
+    wakeLock.enable();
+    mediaSession.setActive(true);
+  };
+
+  const stopSession = (fadeOutMs: number) => {
+    audioEngine.stop(fadeOutMs);
+    program = null;
+    isPlaying = false;
+    playingLevel = null;
+    lastClip = null;
+    haptics.stop();
+    mediaSession.setActive(false);
+    stopHeartbeat?.();
+    stopHeartbeat = null;
+    wakeLock.disable();
+    stopRecording();
+    finishSessionLog();
+    store.dispatch({ type: 'masterSwitched', on: false });
+  };
+
+  const stop = () => stopSession(MASTER_FADE_OUT_MS);
+
+  // --- Manual Controls ---
+
+  const skip = () => {
+    const state = store.getState();
+    if (!state.masterSwitch) return;
+    const level = state.pinnedLevel ?? playingLevel;
+    audioEngine.skip(SKIP_FADE_OUT_MS);
+    isPlaying = false;
+    if (level === null || !playNextClip(selectActiveScheme(state), level)) decideAndPlay();
+  };
+
+  const replayLast = () => {
+    const state = store.getState();
+    if (!state.masterSwitch || !lastClip) return;
+    audioEngine.skip(SKIP_FADE_OUT_MS);
+    playClip(selectActiveScheme(state), lastClip.level, lastClip.file);
+  };
+
+  // Restarts the input whenever what it depends on changes, and follows the volume
+  let applied: AppState | null = null;
+  const sync = () => {
+    const state = store.getState();
+    const previous = applied;
+    applied = state;
+
+    if (state.settings.globalVolume !== previous?.settings.globalVolume || state.liveReplay !== previous?.liveReplay) {
+      // A muted replay keeps the logic running silently
+      audioEngine.setVolume(state.liveReplay?.muted ? 0 : state.settings.globalVolume);
+    }
+    if (
+      state.settings.foregroundVolume !== previous?.settings.foregroundVolume
+      || state.settings.backgroundVolume !== previous?.settings.backgroundVolume
+    ) {
+      audioEngine.setLayerVolumes(state.settings.foregroundVolume, state.settings.backgroundVolume);
+    }
+    if (state.settings.haptics !== previous?.settings.haptics || state.liveReplay !== previous?.liveReplay) {
+      updateHaptics();
+    }
+
+    const inputChanged = !previous
+      || state.masterSwitch !== previous.masterSwitch
+      || state.settings.motionSourceId !== previous.settings.motionSourceId
+      || state.motionScript !== previous.motionScript
+      || selectCalibration(state) !== selectCalibration(previous);
+    if (!inputChanged) return;
+    if (state.masterSwitch) {
+      startMotionInput();
+    } else {
+      stopMotionInput();
+    }
+  };
+  sync();
+  const unsubscribe = store.subscribe(sync);
+
+  return {
+    toggle: () => {
+      if (store.getState().masterSwitch) {
+        stop();
+      } else {
+        start();
+      }
+    },
+    stop,
+    tap: () => {
+      if (source?.id === 'tap') (source as TapMotionSource).tap();
+    },
+    receiveMotion: sample => {
+      if (source?.id === 'remote') (source as RemoteMotionSource).receive(sample);
+    },
+    loadMotionScript: async files => {
+      const file = files?.[0];
+      if (!file) return;
+      try {
+        store.dispatch({ type: 'motionSourceSelected', id: 'script', script: parseMotionScript(JSON.parse(await file.text())) });
+      } catch (error) {
+        console.error("Motion script rejected:", error);
+        notifications.showToast('error', selectMessages(store.getState()).toasts.scriptFailed);
+      }
+    },
+    startRecording,
+    stopRecording,
+    startLiveReplay: (recording, muted) => {
+      store.dispatch({ type: 'liveReplayStarted', recording, muted });
+      if (!store.getState().masterSwitch) start();
+    },
+    liveSession: () => sessionLog?.finish(),
+    skip,
+    replayLast,
+    // Pinning switches over right away; unpinning lets the current clip finish
+    pinLevel: level => {
+      store.dispatch({ type: 'levelPinned', level });
+      if (level !== null) skip();
+    },
+    setManualMode: on => store.dispatch({ type: 'manualModeChanged', on }),
+    setManualPleasure: value => {
+      const { rules } = selectActiveScheme(store.getState());
+      setMeters({ pleasure: Math.min(Math.max(Math.round(value), 0), maxPleasure(rules)) });
+      if (!isPlaying) decideAndPlay();
+    },
+    deleteSessionLog: id => {
+      store.dispatch({ type: 'sessionLogDeleted', id });
+      deleteSessionLog(id).catch(error => console.error("Failed to delete session:", error));
+    },
+    dispose: () => {
+      unsubscribe();
+      stopMotionInput();
+      stopHeartbeat?.();
+      wakeLock.disable();
+      haptics.stop();
+      mediaSession.dispose();
+      audioEngine.stop(MASTER_FADE_OUT_MS);
+    },
+  };
+};
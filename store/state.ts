@@ -0,0 +1,361 @@
+import type { AudioFile, LevelId, Scheme, SessionProgram } from '../types';
+import { DEFAULT_ASSIGNMENT_RULES } from '../engine/bulkImport';
+import { DEFAULT_CALIBRATION } from '../engine/motionProcessing';
+import type { Calibration } from '../engine/motionProcessing';
+import type { MotionSourceErrorCode, MotionSourceId, ScriptedSample } from '../engine/motionSources';
+import type { SessionRecording } from '../engine/recorder';
+import { createRoomCode } from '../engine/remote';
+import type { PlayerStatus, RemoteRole, RemoteStatus } from '../engine/remote';
+import { DEFAULT_RULES } from '../engine/rules';
+import { createEmptyLevels, patchSchemeFile } from '../engine/schemes';
+import type { PersistedSettings, SessionLog } from '../engine/storage';
+import { detectLocale, isLocale, MESSAGES } from '../i18n';
+
+// --- App State ---
+// Everything the views and the session runtime share. Dialogs that only one view
+// cares about (calibration, previews, the bulk import review…) keep local state instead.
+
+export type Settings = Omit<PersistedSettings, 'activeSchemeId'>;
+
+export type Meters = {
+  pleasure: number; // 0 - max of band 4 (100 by default)
+  dirtyTalk: number; // 0 - burst threshold (15 by default)
+  motion: number; // Visual only, 0 - 100
+  intensity: number; // Of the last heartbeat
+  frequencyHz: number | null;
+  stalled: boolean; // Master switch on, but no samples arriving
+  programElapsedMs: number | null; // Whole seconds into the running program
+};
+
+export type Toast = {
+  id: string;
+  kind: 'success' | 'error' | 'info';
+  message: string;
+  action?: { label: string; run: () => void };
+  onClose?: () => void; // After it's dismissed, timed out or its action ran
+};
+
+export type ConfirmRequest = {
+  message: string;
+  confirmLabel: string;
+  onConfirm: () => void;
+};
+
+// Pairing with another instance over the relay
+export type RemoteState = {
+  role: RemoteRole;
+  status: RemoteStatus;
+  player: PlayerStatus | null; // Last report from the paired player, controller only
+  resumeSourceId: MotionSourceId; // Input to go back to when a player unpairs
+};
+
+// Why the device check was opened, when a session's input failed to start
+export type InputFailure = { source: MotionSourceId; code: MotionSourceErrorCode };
+
+export type AppState = {
+  isHydrated: boolean; // Persistence is held back until the stored state has been restored
+  settings: Settings;
+  schemes: Scheme[];
+  activeSchemeId: string;
+  programs: SessionProgram[];
+  editor: Scheme | null; // Working copy of the scheme being edited
+  deletedSchemes: Scheme[]; // Undo still offered; their blob URLs have to stay alive
+  masterSwitch: boolean;
+  meters: Meters;
+  pinnedLevel: LevelId | null; // Plays continuously, whatever the rules say
+  manualMode: boolean; // Pleasure comes from a slider instead of motion
+  // Loaded per session only, so the script source is never restored on reload
+  motionScript: ScriptedSample[] | null;
+  // Set while a recording drives the script source, so its calibration (and mute) apply
+  liveReplay: { muted: boolean; calibration: Calibration } | null;
+  isRecording: boolean;
+  lastRecording: SessionRecording | null;
+  sessionLogs: SessionLog[]; // Newest first
+  toasts: Toast[];
+  confirmRequest: ConfirmRequest | null;
+  deviceCheck: { failure: InputFailure | null } | null;
+  remote: RemoteState | null; // Not paired
+};
+
+export type Action =
+  | { type: 'hydrated'; schemes: Scheme[]; programs: SessionProgram[]; settings: Partial<PersistedSettings> | null }
+  | { type: 'sessionLogsLoaded'; logs: SessionLog[] }
+  | { type: 'settingsChanged'; patch: Partial<Settings> }
+  | { type: 'motionSourceSelected'; id: MotionSourceId; script?: ScriptedSample[] }
+  | { type: 'schemeAdded'; scheme: Scheme; afterId?: string }
+  | { type: 'schemeReplaced'; scheme: Scheme }
+  | { type: 'schemeDeleted'; id: string }
+  | { type: 'schemeRestored'; scheme: Scheme; index: number; activate: boolean }
+  | { type: 'deletedSchemeReleased'; scheme: Scheme }
+  | { type: 'schemeActivated'; id: string }
+  | { type: 'programSaved'; program: SessionProgram }
+  | { type: 'programDeleted'; id: string }
+  | { type: 'filePatched'; fileId: string; patch: Partial<AudioFile> }
+  | { type: 'editorOpened'; scheme: Scheme }
+  | { type: 'editorChanged'; scheme: Scheme }
+  | { type: 'editorClosed' }
+  | { type: 'masterSwitched'; on: boolean }
+  | { type: 'metersChanged'; patch: Partial<Meters> }
+  | { type: 'levelPinned'; level: LevelId | null }
+  | { type: 'manualModeChanged'; on: boolean }
+  | { type: 'liveReplayStarted'; recording: SessionRecording; muted: boolean }
+  | { type: 'recordingChanged'; isRecording: boolean; lastRecording?: SessionRecording }
+  | { type: 'sessionLogAdded'; log: SessionLog }
+  | { type: 'sessionLogDeleted'; id: string }
+  | { type: 'toastShown'; toast: Toast }
+  | { type: 'toastClosed'; id: string }
+  | { type: 'confirmRequested'; request: ConfirmRequest | null }
+  | { type: 'deviceCheckOpened'; failure: InputFailure | null }
+  | { type: 'deviceCheckClosed' }
+  | { type: 'remotePaired'; role: RemoteRole }
+  | { type: 'remoteStatusChanged'; status: RemoteStatus }
+  | { type: 'remotePlayerReported'; player: PlayerStatus }
+  | { type: 'remoteUnpaired' };
+
+// --- Initial State ---
+
+// Resolved once at startup; a saved language choice replaces it after hydration
+const INITIAL_LOCALE = detectLocale();
+
+export const DEFAULT_SCHEME: Scheme = {
+  id: 'default-1',
+  name: MESSAGES[INITIAL_LOCALE].schemeNames.default,
+  rules: DEFAULT_RULES,
+  levels: createEmptyLevels(),
+};
+
+const DEFAULT_SETTINGS: Settings = {
+  globalVolume: 1.0, // 0.0 - 1.0
+  foregroundVolume: 1.0,
+  backgroundVolume: 0.6,
+  sensitivity: 3, // 1 - 5
+  crossfadeMs: 1000, // Overlap when the level changes
+  motionSourceId: 'devicemotion',
+  calibrations: {},
+  importRules: DEFAULT_ASSIGNMENT_RULES,
+  locale: INITIAL_LOCALE,
+  onboardingDone: false, // Device check seen once
+  haptics: false, // Vibrate along with playback
+  activeProgramId: null,
+  relayUrl: '',
+  roomCode: createRoomCode(),
+};
+
+const IDLE_METERS: Meters = { pleasure: 0, dirtyTalk: 0, motion: 0, intensity: 0, frequencyHz: null, stalled: false, programElapsedMs: null };
+
+export const initialState: AppState = {
+  isHydrated: false,
+  settings: DEFAULT_SETTINGS,
+  schemes: [DEFAULT_SCHEME],
+  activeSchemeId: DEFAULT_SCHEME.id,
+  programs: [],
+  editor: null,
+  deletedSchemes: [],
+  masterSwitch: false,
+  meters: IDLE_METERS,
+  pinnedLevel: null,
+  manualMode: false,
+  motionScript: null,
+  liveReplay: null,
+  isRecording: false,
+  lastRecording: null,
+  sessionLogs: [],
+  toasts: [],
+  confirmRequest: null,
+  deviceCheck: null,
+  remote: null,
+};
+
+// --- Selectors ---
+
+export const selectActiveScheme = (state: AppState) =>
+  state.schemes.find(s => s.id === state.activeSchemeId) || state.schemes[0];
+
+export const selectActiveProgram = (state: AppState) =>
+  state.programs.find(p => p.id === state.settings.activeProgramId) ?? null;
+
+export const selectMessages = (state: AppState) => MESSAGES[state.settings.locale];
+
+// Calibration the motion input runs with: a replayed recording brings its own
+export const selectCalibration = (state: AppState) =>
+  state.liveReplay?.calibration ?? state.settings.calibrations[state.settings.motionSourceId] ?? DEFAULT_CALIBRATION;
+
+// --- Reducer ---
+
+// Older saves lack newer fields, and neither the script nor the remote source is restored
+const restoreSettings = (settings: Settings, saved: Partial<PersistedSettings>): Settings => ({
+  globalVolume: saved.globalVolume ?? settings.globalVolume,
+  foregroundVolume: saved.foregroundVolume ?? settings.foregroundVolume,
+  backgroundVolume: saved.backgroundVolume ?? settings.backgroundVolume,
+  sensitivity: saved.sensitivity ?? settings.sensitivity,
+  crossfadeMs: saved.crossfadeMs ?? settings.crossfadeMs,
+  motionSourceId: saved.motionSourceId && saved.motionSourceId !== 'script' && saved.motionSourceId !== 'remote'
+    ? saved.motionSourceId
+    : settings.motionSourceId,
+  calibrations: saved.calibrations ?? settings.calibrations,
+  importRules: saved.importRules ?? settings.importRules,
+  locale: isLocale(saved.locale) ? saved.locale : settings.locale,
+  onboardingDone: saved.onboardingDone ?? settings.onboardingDone,
+  haptics: saved.haptics ?? settings.haptics,
+  activeProgramId: saved.activeProgramId ?? settings.activeProgramId,
+  relayUrl: saved.relayUrl ?? settings.relayUrl,
+  roomCode: saved.roomCode || settings.roomCode,
+});
+
+export const reducer = (state: AppState, action: Action): AppState => {
+  switch (action.type) {
+    case 'hydrated': {
+      const schemes = action.schemes.length > 0 ? action.schemes : state.schemes;
+      const active = schemes.find(s => s.id === action.settings?.activeSchemeId) || schemes[0];
+      const settings = action.settings ? restoreSettings(state.settings, action.settings) : state.settings;
+      return {
+        ...state,
+        isHydrated: true,
+        schemes,
+        activeSchemeId: active.id,
+        programs: action.programs,
+        settings: action.programs.some(p => p.id === settings.activeProgramId) ? settings : { ...settings, activeProgramId: null },
+      };
+    }
+    case 'sessionLogsLoaded':
+      return { ...state, sessionLogs: action.logs };
+    case 'settingsChanged':
+      return { ...state, settings: { ...state.settings, ...action.patch } };
+    case 'motionSourceSelected':
+      return {
+        ...state,
+        settings: { ...state.settings, motionSourceId: action.id },
+        motionScript: action.script ?? state.motionScript,
+        liveReplay: null,
+      };
+
+    case 'schemeAdded': {
+      const index = state.schemes.findIndex(s => s.id === action.afterId);
+      return {
+        ...state,
+        schemes: index === -1
+          ? [...state.schemes, action.scheme]
+          : [...state.schemes.slice(0, index + 1), action.scheme, ...state.schemes.slice(index + 1)],
+      };
+    }
+    case 'schemeReplaced':
+      return { ...state, schemes: state.schemes.map(s => s.id === action.scheme.id ? action.scheme : s) };
+    case 'schemeDeleted': {
+      const scheme = state.schemes.find(s => s.id === action.id);
+      const schemes = state.schemes.filter(s => s.id !== action.id);
+      if (!scheme || schemes.length === 0) return state;
+      return {
+        ...state,
+        schemes,
+        activeSchemeId: state.activeSchemeId === action.id ? schemes[0].id : state.activeSchemeId,
+        deletedSchemes: [...state.deletedSchemes, scheme],
+      };
+    }
+    case 'schemeRestored':
+      return {
+        ...state,
+        schemes: [...state.schemes.slice(0, action.index), action.scheme, ...state.schemes.slice(action.index)],
+        activeSchemeId: action.activate ? action.scheme.id : state.activeSchemeId,
+        deletedSchemes: state.deletedSchemes.filter(s => s !== action.scheme),
+      };
+    case 'deletedSchemeReleased':
+      return { ...state, deletedSchemes: state.deletedSchemes.filter(s => s !== action.scheme) };
+    case 'schemeActivated':
+      return { ...state, activeSchemeId: action.id };
+    case 'programSaved': {
+      const exists = state.programs.some(p => p.id === action.program.id);
+      return {
+        ...state,
+        programs: exists
+          ? state.programs.map(p => p.id === action.program.id ? action.program : p)
+          : [...state.programs, action.program],
+      };
+    }
+    case 'programDeleted':
+      return {
+        ...state,
+        programs: state.programs.filter(p => p.id !== action.id),
+        settings: state.settings.activeProgramId === action.id ? { ...state.settings, activeProgramId: null } : state.settings,
+      };
+    // Applies a file change wherever the file currently lives (saved schemes and the editor copy)
+    case 'filePatched':
+      return {
+        ...state,
+        schemes: state.schemes.map(s => patchSchemeFile(s, action.fileId, action.patch)),
+        editor: state.editor && patchSchemeFile(state.editor, action.fileId, action.patch),
+      };
+
+    case 'editorOpened':
+    case 'editorChanged':
+      return { ...state, editor: action.scheme };
+    case 'editorClosed':
+      return { ...state, editor: null };
+
+    case 'masterSwitched':
+      return {
+        ...state,
+        masterSwitch: action.on,
+        meters: action.on ? state.meters : { ...state.meters, stalled: false, programElapsedMs: null },
+        liveReplay: action.on ? state.liveReplay : null,
+      };
+    case 'metersChanged':
+      return { ...state, meters: { ...state.meters, ...action.patch } };
+    case 'levelPinned':
+      return { ...state, pinnedLevel: action.level };
+    case 'manualModeChanged':
+      return { ...state, manualMode: action.on };
+    case 'liveReplayStarted':
+      return {
+        ...state,
+        settings: { ...state.settings, motionSourceId: 'script' },
+        motionScript: action.recording.samples,
+        liveReplay: { muted: action.muted, calibration: action.recording.calibration },
+      };
+    case 'recordingChanged':
+      return {
+        ...state,
+        isRecording: action.isRecording,
+        lastRecording: action.lastRecording ?? state.lastRecording,
+      };
+    case 'sessionLogAdded':
+      return { ...state, sessionLogs: [action.log, ...state.sessionLogs] };
+    case 'sessionLogDeleted':
+      return { ...state, sessionLogs: state.sessionLogs.filter(log => log.id !== action.id) };
+
+    // Notifications closes the oldest ones first, so there are never too many
+    case 'toastShown':
+      return { ...state, toasts: [...state.toasts, action.toast] };
+    case 'toastClosed':
+      return { ...state, toasts: state.toasts.filter(toast => toast.id !== action.id) };
+    case 'confirmRequested':
+      return { ...state, confirmRequest: action.request };
+    case 'deviceCheckOpened':
+      return { ...state, deviceCheck: { failure: action.failure } };
+    case 'deviceCheckClosed':
+      return { ...state, deviceCheck: null, settings: { ...state.settings, onboardingDone: true } };
+
+    // A player takes its motion from the link for as long as it's paired
+    case 'remotePaired':
+      return {
+        ...state,
+        remote: { role: action.role, status: 'connecting', player: null, resumeSourceId: state.settings.motionSourceId },
+        settings: action.role === 'player' ? { ...state.settings, motionSourceId: 'remote' } : state.settings,
+        liveReplay: action.role === 'player' ? null : state.liveReplay,
+      };
+    case 'remoteStatusChanged':
+      return state.remote && state.remote.status !== action.status
+        ? { ...state, remote: { ...state.remote, status: action.status } }
+        : state;
+    case 'remotePlayerReported':
+      return state.remote ? { ...state, remote: { ...state.remote, player: action.player } } : state;
+    case 'remoteUnpaired':
+      if (!state.remote) return state;
+      return {
+        ...state,
+        remote: null,
+        settings: state.settings.motionSourceId === 'remote'
+          ? { ...state.settings, motionSourceId: state.remote.resumeSourceId }
+          : state.settings,
+      };
+  }
+};
@@ -0,0 +1,8 @@
+/** @type {import('tailwindcss').Config} */
+export default {
+  content: ['./index.html', './*.tsx', './components/**/*.{ts,tsx}', './engine/**/*.ts'],
+  theme: {
+    extend: {},
+  },
+  plugins: [],
+};
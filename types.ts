@@ -0,0 +1,87 @@
+// --- Shared Types ---
+
+export type LevelId = 1 | 2 | 3 | 4 | 5;
+
+export type AudioFile = {
+  id: string; // Key of the stored audio blob
+  name: string;
+  url: string; // Blob URL, only valid for the current session
+  loudness?: number; // Integrated loudness (LUFS), unset until analysed
+  normalizationDb?: number; // Gain to reach the target loudness, unset until analysed
+  trimDb: number; // Manual per-file adjustment on top of normalization
+  weight: number; // Relative chance in weighted selection
+  durationMs?: number; // Unset until the file has been decoded
+  sampleRate?: number; // From the file header; unset when the format isn't recognized
+  size?: number; // Bytes
+  error?: string; // Why the file can't be decoded; such files are never picked
+};
+
+// random: uniform pick, shuffle: no repeat until all have played, weighted: by file weight
+export type SelectionMode = 'random' | 'shuffle' | 'weighted';
+
+export type LevelSelection = {
+  mode: SelectionMode;
+  cooldownMs: number; // Minimum time before the same file may play again
+};
+
+// Vibration while a level plays. Pulses get longer and closer together as pleasure rises;
+// on level 5 the pattern also fires as a burst when dirty talk triggers it.
+export type HapticPattern = {
+  enabled: boolean;
+  pulseMs: number; // Pulse length at full pleasure
+  gapMs: number; // Pause between pulses at full pleasure
+};
+
+export type SchemeLevel = {
+  files: AudioFile[];
+  selection: LevelSelection;
+  haptics: HapticPattern;
+  // Looped under the clips while this level plays; levels without one keep the previous track
+  ambient: AudioFile | null;
+};
+
+// Inclusive pleasure range that maps to a playback level
+export type LevelBand = {
+  min: number;
+  max: number;
+};
+
+export type SchemeRules = {
+  bands: Record<1 | 2 | 3 | 4, LevelBand>;
+  burstThreshold: number; // Dirty talk count that triggers level 5
+  riseRate: number; // Pleasure gained per heartbeat with motion, per sensitivity step
+  decayRate: number; // Pleasure lost per heartbeat without motion
+  heartbeatMs: number; // Heartbeat interval, also the "no motion" cutoff
+};
+
+export type Scheme = {
+  id: string;
+  name: string;
+  rules: SchemeRules;
+  levels: {
+    1: SchemeLevel; // Band 1 (1-20 by default)
+    2: SchemeLevel; // Band 2 (21-60)
+    3: SchemeLevel; // Band 3 (61-90)
+    4: SchemeLevel; // Band 4 (91-100)
+    5: SchemeLevel; // Special / Dirty Talk Max
+  };
+};
+
+// One stretch of a session program. Pleasure is held between floor and ceiling, which move
+// linearly from the previous step's values (0 and 1 for the first step) to these by its end.
+export type ProgramStep = {
+  durationMs: number;
+  floor: number; // Fraction of the scheme's max pleasure, 0 - 1
+  ceiling: number; // Same scale
+};
+
+// A timed session: the steps, then a cooldown held in band 1, then a fade-out and stop
+export type SessionProgram = {
+  id: string;
+  name: string;
+  steps: ProgramStep[];
+  cooldownMs: number;
+  fadeOutMs: number;
+};
+
+export const LEVEL_IDS: LevelId[] = [1, 2, 3, 4, 5];
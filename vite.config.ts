@@ -1,6 +1,7 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { VitePWA } from 'vite-plugin-pwa';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,7 +10,33 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [
+        react(),
+        VitePWA({
+          // The app asks before reloading, so a session is never cut off by an update
+          registerType: 'prompt',
+          includeAssets: ['icon.svg', 'apple-touch-icon.png'],
+          manifest: {
+            name: 'Joysound',
+            short_name: 'Joysound',
+            lang: 'zh-CN',
+            start_url: '.',
+            scope: '.',
+            display: 'standalone',
+            orientation: 'portrait',
+            background_color: '#F3F1F6',
+            theme_color: '#F3F1F6',
+            icons: [
+              { src: 'icon-192.png', sizes: '192x192', type: 'image/png' },
+              { src: 'icon-512.png', sizes: '512x512', type: 'image/png' },
+              { src: 'icon-512.png', sizes: '512x512', type: 'image/png', purpose: 'maskable' },
+            ],
+          },
+          workbox: {
+            globPatterns: ['**/*.{js,css,html,svg,png}'],
+          },
+        }),
+      ],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)